@@ -1,14 +1,32 @@
-import { useState } from 'react';
-import { Upload, Plus, Trash2, Calculator, Download, ClipboardPaste, X, BarChart3, ChevronDown, ChevronUp } from 'lucide-react';
-import { CashFlow, calculateXIRR, parseCSV, XIRRResult } from './utils/xirr';
+import { useEffect, useMemo, useState } from 'react';
+import { Upload, Plus, Trash2, Calculator, Download, ClipboardPaste, X, BarChart3, ChevronDown, ChevronUp, PlayCircle, Scale, AlertTriangle, LineChart, FileSpreadsheet } from 'lucide-react';
+import { AnnualizationPolicy, CashFlow, DAY_COUNT_CONVENTIONS, DayCountConvention, MIRRResult, MultiplesResult, calculateMultiples, calculateXIRR, calculateXMIRR, parseAnnualizationPolicy, ValuedCashFlow, XIRR_MODES, XIRRMode, XIRRResult } from './utils/xirr';
+import { APIRequest, APIWindow, XIRRResultsDocument, evaluateAPIRequest, parseAPIDate, requestNanValue } from './utils/apiBatch';
+import { isXIRRResultsDocument } from './utils/reconciliation';
+import { BenchmarkSeries, isBenchmarkCSV, parseBenchmarkCSV } from './utils/benchmark';
+import { ImportedFlow } from './utils/csvImport';
+import { DateFormat, NumberFormat, ambiguityWarnings, detectDateFormat, detectNumberFormat, parseAmountValue, parseDateValue } from './utils/localeFormats';
+import { readWorkbook } from './utils/xlsx';
+import { addYears, compareDates, today } from './utils/calendarDate';
+import { toValuedFlows } from './utils/periodResults';
+import { XLSX_MIME_TYPE, buildResultsWorkbook } from './utils/resultsWorkbook';
+import { useAuth } from './lib/AuthContext';
+import { Auth, AuthMode } from './components/Auth';
+import { AccountMenu } from './components/AccountMenu';
 import { DatasetManager } from './components/DatasetManager';
+import { ImportSource, ImportWizard } from './components/ImportWizard';
+import { LocalDatasetMigration } from './components/LocalDatasetMigration';
 import { MultiPeriodInput } from './components/MultiPeriodInput';
+import { MultiPeriodAnalysis } from './components/MultiPeriodAnalysis';
+import { CashFlowCharts } from './components/CashFlowCharts';
+import { ReconciliationView } from './components/ReconciliationView';
 
 interface FlowInput {
   id: string;
   date: string;
   amount: string;
   description: string;
+  marketValue?: string;
 }
 
 interface Period {
@@ -18,6 +36,8 @@ interface Period {
   endDate: string;
   startValue: string;
   endValue: string;
+  annualized?: AnnualizationPolicy;
+  benchmark?: string;
 }
 
 interface PeriodValues {
@@ -26,6 +46,9 @@ interface PeriodValues {
 
 type ViewMode = 'simple' | 'multi-period';
 
+// Window dates in a dates/flows JSON upload, under any of the key spellings it accepts
+type JSONWindowDates = Partial<Record<'start-date' | 'start_date' | 'startDate' | 'end-date' | 'end_date' | 'endDate', unknown>>;
+
 interface APIMetadata {
   requestId: string;
   entity: string;
@@ -47,6 +70,10 @@ const extractCalcType = (calcId: string): string => {
 
 function App() {
   const [viewMode, setViewMode] = useState<ViewMode>('multi-period');
+  const [dayCount, setDayCount] = useState<DayCountConvention>('ACT/365F');
+  const [xirrMode, setXirrMode] = useState<XIRRMode>('standard');
+  const [financeRate, setFinanceRate] = useState('10');
+  const [reinvestmentRate, setReinvestmentRate] = useState('10');
   const [flows, setFlows] = useState<FlowInput[]>([
     { id: '1', date: '', amount: '', description: 'Initial Investment' },
     { id: '2', date: '', amount: '', description: 'Final Value' }
@@ -54,85 +81,45 @@ function App() {
   const [periodFlows, setPeriodFlows] = useState<FlowInput[]>([]);
   const [apiMetadata, setApiMetadata] = useState<APIMetadata | null>(null);
   const [periodValues, setPeriodValues] = useState<PeriodValues>(() => {
-    const today = new Date().toISOString().split('T')[0];
-
-    const oneYearAgo = new Date();
-    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-
-    const fiveYearsAgo = new Date();
-    fiveYearsAgo.setFullYear(fiveYearsAgo.getFullYear() - 5);
-
-    const tenYearsAgo = new Date();
-    tenYearsAgo.setFullYear(tenYearsAgo.getFullYear() - 10);
+    const endDate = today();
 
     return {
       periods: [
-        { id: '1', label: '1 Year', startDate: oneYearAgo.toISOString().split('T')[0], endDate: today, startValue: '', endValue: '' },
-        { id: '2', label: '5 Years', startDate: fiveYearsAgo.toISOString().split('T')[0], endDate: today, startValue: '', endValue: '' },
-        { id: '3', label: '10 Years', startDate: tenYearsAgo.toISOString().split('T')[0], endDate: today, startValue: '', endValue: '' }
+        { id: '1', label: '1 Year', startDate: addYears(endDate, -1), endDate, startValue: '', endValue: '' },
+        { id: '2', label: '5 Years', startDate: addYears(endDate, -5), endDate, startValue: '', endValue: '' },
+        { id: '3', label: '10 Years', startDate: addYears(endDate, -10), endDate, startValue: '', endValue: '' }
       ]
     };
   });
   const [result, setResult] = useState<XIRRResult | null>(null);
+  const [mirrResult, setMirrResult] = useState<MIRRResult | null>(null);
+  const [multiples, setMultiples] = useState<MultiplesResult | null>(null);
   const [error, setError] = useState<string>('');
   const [showPasteDialog, setShowPasteDialog] = useState(false);
+  const [importSource, setImportSource] = useState<ImportSource | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
   const [pasteData, setPasteData] = useState('');
   const [showCalcSelector, setShowCalcSelector] = useState(false);
   const [availableCalcs, setAvailableCalcs] = useState<any[]>([]);
-  const [apiData, setApiData] = useState<any>(null);
+  const [apiData, setApiData] = useState<APIRequest | null>(null);
+  const [apiResponse, setApiResponse] = useState<XIRRResultsDocument | null>(null);
+  const [benchmarks, setBenchmarks] = useState<BenchmarkSeries[]>([]);
   const [cashFlowsExpanded, setCashFlowsExpanded] = useState(true);
   const [selectedCalcType, setSelectedCalcType] = useState<string>('');
   const [loadedCalculations, setLoadedCalculations] = useState<any[]>([]);
+  const [authMode, setAuthMode] = useState<AuthMode | null>(null);
+  const { user, sessionExpired, passwordRecovery, dismissSessionExpired } = useAuth();
 
-  const cashFlows: CashFlow[] = flows
-    .filter(f => f.date && f.amount)
-    .map(f => ({
-      date: new Date(f.date),
-      amount: parseFloat(f.amount),
-      description: f.description
-    }));
-
-  const findStartValueForDate = (dateStr: string): string => {
-    return '';
-  };
-
-  const buildPeriodCashFlows = (startDateStr: string, endDateStr: string, startValue: string, endValue: string): CashFlow[] => {
-    if (!startDateStr || !endDateStr || !endValue) return [];
+  // Following a reset link signs the user in with a recovery session; ask for the new password
+  useEffect(() => {
+    if (passwordRecovery) setAuthMode('update');
+  }, [passwordRecovery]);
 
-    const effectiveStartValue = startValue || findStartValueForDate(startDateStr);
+  useEffect(() => {
+    if (user) setAuthMode(mode => (mode === 'update' ? mode : null));
+  }, [user]);
 
-    if (!effectiveStartValue) return [];
-
-    const startDate = new Date(startDateStr);
-    const endDate = new Date(endDateStr);
-
-    const flows: CashFlow[] = [];
-
-    flows.push({
-      date: startDate,
-      amount: -Math.abs(parseFloat(effectiveStartValue)),
-      description: 'Period Start Value'
-    });
-
-    const intermediateFlows = periodFlows
-      .filter(f => f.date && f.amount)
-      .map(f => ({
-        date: new Date(f.date),
-        amount: parseFloat(f.amount),
-        description: f.description
-      }))
-      .filter(f => f.date > startDate && f.date <= endDate);
-
-    flows.push(...intermediateFlows);
-
-    flows.push({
-      date: endDate,
-      amount: parseFloat(endValue),
-      description: 'Period End Value'
-    });
-
-    return flows.sort((a, b) => a.date.getTime() - b.date.getTime());
-  };
+  const cashFlows: ValuedCashFlow[] = useMemo(() => toValuedFlows(flows), [flows]);
 
   const addFlow = () => {
     setFlows([...flows, {
@@ -153,14 +140,6 @@ function App() {
     setFlows(flows.map(f => f.id === id ? { ...f, [field]: value } : f));
   };
 
-  const parseAPIDate = (dateNum: number): string => {
-    const dateStr = dateNum.toString();
-    const year = dateStr.substring(0, 4);
-    const month = dateStr.substring(4, 6);
-    const day = dateStr.substring(6, 8);
-    return `${year}-${month}-${day}`;
-  };
-
   const importAPICalculation = (calc: any) => {
     console.log('Importing calculation:', calc['calc-id']);
     const calcType = extractCalcType(calc['calc-id']);
@@ -192,9 +171,15 @@ function App() {
       startDate: parseAPIDate(window['start-date']),
       endDate: parseAPIDate(window['end-date']),
       startValue: window['start-market-value'].toString(),
-      endValue: window['end-market-value'].toString()
+      endValue: window['end-market-value'].toString(),
+      annualized: parseAnnualizationPolicy(window.annualized)
     }));
 
+    const invalidDates = [...calc.dates, ...calc.windows.flatMap((w: APIWindow) => [w['start-date'], w['end-date']])].filter(d => !parseAPIDate(d));
+    setImportWarnings(invalidDates.length > 0
+      ? [`${invalidDates.length} date${invalidDates.length === 1 ? ' is' : 's are'} not valid YYYYMMDD dates (e.g. ${invalidDates[0]}) and were left blank.`]
+      : []);
+
     // Switch to multi-period mode and populate data
     setViewMode('multi-period');
     setPeriodFlows(newFlows);
@@ -209,6 +194,31 @@ function App() {
     alert(`✓ Imported: ${calc['calc-id']}\n\n${newFlows.length} cash flows\n${newPeriods.length} analysis windows\n\nSwitch to Multi-Period mode and click "Calculate Multi-Period XIRR" to verify results.`);
   };
 
+  const evaluateAllCalculations = () => {
+    if (!apiData) return;
+
+    const resultsDoc = evaluateAPIRequest(apiData, {
+      dayCount,
+      mode: xirrMode,
+      financeRate: (parseFloat(financeRate) || 0) / 100,
+      reinvestmentRate: (parseFloat(reinvestmentRate) || 0) / 100
+    });
+    const windows = resultsDoc.results.flatMap(r => r.windows);
+    const failedWindows = windows.filter(w => w.error).length;
+
+    const blob = new Blob([JSON.stringify(resultsDoc, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `xirr-results-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    alert(`✓ Evaluated ${resultsDoc.results.length} calculations\n\n${windows.length} windows\n${failedWindows} failed (reported as ${requestNanValue(apiData)})\n\nCalc time: ${resultsDoc['calc-time']}`);
+  };
+
   const handleJSONImport = (jsonText: string) => {
     console.log('handleJSONImport called, text length:', jsonText.length);
     try {
@@ -233,6 +243,17 @@ function App() {
       }
       console.log('JSON parsed successfully, data keys:', Object.keys(data));
 
+      // xirr-results response from the production service, reconciled against the loaded request
+      if (isXIRRResultsDocument(data)) {
+        if (!apiData) {
+          setError('Load the API request before loading its xirr-results response.');
+          return;
+        }
+        setApiResponse(data);
+        setError('');
+        return;
+      }
+
       // Check if this is an API request format
       if (data.calculations && Array.isArray(data.calculations)) {
         // API format detected
@@ -264,6 +285,7 @@ function App() {
         // Store all calculations
         setLoadedCalculations(allCalcs);
         setApiData(data);
+        setApiResponse(null);
 
         // If multiple calculations, show selector
         if (allCalcs.length > 1) {
@@ -292,18 +314,15 @@ function App() {
           return;
         }
 
-        // Helper to parse date (handles both number and string formats)
-        const parseDate = (date: any): string => {
-          if (typeof date === 'number') {
-            return parseAPIDate(date);
-          }
-          return parseDateString(date);
-        };
+        const windowDates = Array.isArray(data.windows)
+          ? data.windows.flatMap((w: JSONWindowDates) => [w['start-date'] ?? w.start_date ?? w.startDate, w['end-date'] ?? w.end_date ?? w.endDate])
+          : [];
+        const formats = detectJSONFormats([...dates, ...windowDates], flows);
 
         const newFlows: FlowInput[] = dates.map((date: any, idx: number) => ({
           id: Date.now().toString() + idx,
-          date: parseDate(date),
-          amount: flows[idx]?.toString() || '',
+          date: parseDateValue(date, formats.date),
+          amount: toAmountString(flows[idx], formats.number),
           description: ''
         })).filter(f => f.date && f.amount);
 
@@ -319,10 +338,11 @@ function App() {
             return {
               id: `window-${window['window-id'] || window.windowId || idx}`,
               label: `Period ${idx + 1}`,
-              startDate: typeof startDateRaw === 'number' ? parseAPIDate(startDateRaw) : parseDateString(startDateRaw || ''),
-              endDate: typeof endDateRaw === 'number' ? parseAPIDate(endDateRaw) : parseDateString(endDateRaw || ''),
+              startDate: parseDateValue(startDateRaw, formats.date),
+              endDate: parseDateValue(endDateRaw, formats.date),
               startValue: (window['start-market-value'] || window.start_market_value || window.startMarketValue || window.market_value || window.marketValue || 0).toString(),
-              endValue: (window['end-market-value'] || window.end_market_value || window.endMarketValue || 0).toString()
+              endValue: (window['end-market-value'] || window.end_market_value || window.endMarketValue || 0).toString(),
+              annualized: parseAnnualizationPolicy(window.annualized)
             };
           });
 
@@ -365,16 +385,36 @@ function App() {
         return;
       }
 
+      const jsonPeriods = periodValuesData?.periods ?? [];
+      const formats = detectJSONFormats(
+        [...cashFlowData.map(item => item.date), ...jsonPeriods.flatMap(p => [p.startDate, p.endDate])],
+        [...cashFlowData.flatMap(item => [item.amount, item.marketValue]), ...jsonPeriods.flatMap(p => [p.startValue, p.endValue])]
+      );
+      if (periodValuesData) {
+        periodValuesData = {
+          ...periodValuesData,
+          periods: jsonPeriods.map(p => ({
+            ...p,
+            startDate: parseDateValue(p.startDate, formats.date),
+            endDate: parseDateValue(p.endDate, formats.date),
+            startValue: toAmountString(p.startValue, formats.number),
+            endValue: toAmountString(p.endValue, formats.number)
+          }))
+        };
+      }
+
       const newFlows: FlowInput[] = cashFlowData.map((item, idx) => {
-        const date = item.date ? parseDateString(item.date) : '';
-        const amount = item.amount?.toString() || '';
+        const date = parseDateValue(item.date, formats.date);
+        const amount = toAmountString(item.amount, formats.number);
         const description = item.description || '';
+        const marketValue = toAmountString(item.marketValue, formats.number) || undefined;
 
         return {
           id: Date.now().toString() + idx,
           date,
           amount,
-          description
+          description,
+          marketValue
         };
       }).filter(f => f.date && f.amount);
 
@@ -404,36 +444,78 @@ function App() {
   const calculateIRR = () => {
     setError('');
     setResult(null);
+    setMirrResult(null);
+    setMultiples(null);
 
-    const cashFlows: CashFlow[] = flows
-      .filter(f => f.date && f.amount)
-      .map(f => ({
-        date: new Date(f.date),
-        amount: parseFloat(f.amount),
-        description: f.description
-      }));
+    const cashFlows: CashFlow[] = toValuedFlows(flows);
 
     if (cashFlows.length < 2) {
       setError('Please enter at least 2 cash flows with valid dates and amounts.');
       return;
     }
 
-    const hasOutflow = cashFlows.some(f => f.amount < 0);
-    const hasInflow = cashFlows.some(f => f.amount > 0);
+    setMirrResult(calculateXMIRR(cashFlows, (parseFloat(financeRate) || 0) / 100, (parseFloat(reinvestmentRate) || 0) / 100, dayCount));
 
-    if (!hasOutflow || !hasInflow) {
-      setError('You need at least one negative cash flow (investment) and one positive cash flow (return).');
+    const outcome = calculateXIRR(cashFlows, { dayCount, mode: xirrMode });
+
+    if (!outcome.ok) {
+      setError(`Unable to calculate XIRR. ${outcome.error.message}.`);
       return;
     }
 
-    const calculatedResult = calculateXIRR(cashFlows);
+    // The final flow is the position's ending value (NAV)
+    const sortedFlows = [...cashFlows].sort((a, b) => compareDates(a.date, b.date));
+    setMultiples(calculateMultiples(sortedFlows.slice(0, -1), sortedFlows[sortedFlows.length - 1].amount));
+
+    setResult(outcome.value);
+  };
+
+  const handleResponseUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
 
-    if (!calculatedResult) {
-      setError('Unable to calculate XIRR. Please check your data.');
+    const reader = new FileReader();
+    reader.onerror = () => {
+      setError('Error reading response file. Please try again.');
+    };
+    reader.onload = (e) => {
+      handleJSONImport(e.target?.result as string);
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const importBenchmark = (fileName: string, text: string) => {
+    const name = fileName.replace(/\.[^.]+$/, '');
+    const { series, warnings } = parseBenchmarkCSV(name, text);
+
+    if (series.levels.length < 2) {
+      setError('Benchmark file must contain at least two dated index levels (Date,Level)');
       return;
     }
 
-    setResult(calculatedResult);
+    setImportWarnings(warnings);
+    // Re-uploading a series with the same name replaces it
+    setBenchmarks(prev => [...prev.filter(b => b.name !== name), series]);
+    setPeriodValues(prev => ({
+      periods: prev.periods.map(p => (p.benchmark ? p : { ...p, benchmark: name }))
+    }));
+    setError('');
+  };
+
+  const handleBenchmarkUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onerror = () => {
+      setError('Error reading benchmark file. Please try again.');
+    };
+    reader.onload = (e) => {
+      importBenchmark(file.name, e.target?.result as string);
+    };
+    reader.readAsText(file);
+    event.target.value = '';
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -446,6 +528,24 @@ function App() {
 
     console.log('File selected:', file.name, file.type, file.size);
 
+    if (file.name.toLowerCase().endsWith('.xlsx')) {
+      const reader = new FileReader();
+      reader.onerror = () => {
+        setError('Error reading file. Please try again.');
+      };
+      reader.onload = (e) => {
+        try {
+          const workbook = readWorkbook(new Uint8Array(e.target?.result as ArrayBuffer));
+          setImportSource({ kind: 'workbook', name: file.name, workbook });
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'Error reading Excel file. Please check the format.');
+        }
+      };
+      reader.readAsArrayBuffer(file);
+      event.target.value = '';
+      return;
+    }
+
     const reader = new FileReader();
     reader.onerror = () => {
       console.error('FileReader error');
@@ -462,120 +562,12 @@ function App() {
           return;
         }
 
-        const lines = text.trim().split('\n').filter(line => line.trim());
-        let extractedPeriodValues: PeriodValues | null = null;
-        let newFlows: FlowInput[] = [];
-
-        // Check if this is a multi-section template format
-        const hasMultiPeriodSections = text.includes('Period Definitions:') ||
-                                       text.includes('Period Label,Start Date,End Date');
-
-        if (viewMode === 'multi-period' && hasMultiPeriodSections) {
-          // Parse multi-section template format
-          const periods: Period[] = [];
-
-          let inPeriodSection = false;
-          let inCashFlowSection = false;
-
-          for (const line of lines) {
-            const trimmedLine = line.trim();
-
-            // Toggle sections
-            if (trimmedLine.includes('Period Definitions:')) {
-              inPeriodSection = true;
-              inCashFlowSection = false;
-              continue;
-            }
-            if (trimmedLine.includes('Intermediate Cash Flows')) {
-              inPeriodSection = false;
-              inCashFlowSection = true;
-              continue;
-            }
-
-            // Skip headers
-            if (trimmedLine.startsWith('Period Label,')) {
-              continue;
-            }
-
-            // Parse period values section
-            if (inPeriodSection) {
-              const parts = trimmedLine.split(',');
-
-              if (parts.length >= 5) {
-                const label = parts[0].trim();
-                const startDate = parseDateString(parts[1].trim());
-                const endDate = parseDateString(parts[2].trim());
-                const startValue = parts[3].trim().replace(/[^0-9.-]/g, '');
-                const endValue = parts[4].trim().replace(/[^0-9.-]/g, '');
-
-                if (startDate && endDate) {
-                  periods.push({
-                    id: Date.now().toString() + periods.length,
-                    label,
-                    startDate,
-                    endDate,
-                    startValue,
-                    endValue
-                  });
-                }
-              }
-              continue;
-            }
-
-            // Parse cash flows section
-            if (inCashFlowSection) {
-              const parts = trimmedLine.split(',');
-
-              if (parts.length >= 2) {
-                const dateStr = parts[0].trim();
-                const amountStr = parts[1].trim();
-                const descriptionStr = parts.length > 2 ? parts[2].trim() : '';
-
-                const date = parseDateString(dateStr);
-                const amount = amountStr.replace(/[^0-9.-]/g, '');
-
-                if (date && amount && !isNaN(parseFloat(amount))) {
-                  newFlows.push({
-                    id: `${Date.now()}-${newFlows.length}`,
-                    date,
-                    amount,
-                    description: descriptionStr
-                  });
-                }
-              }
-            }
-          }
-
-          // Build extracted period values
-          extractedPeriodValues = {
-            periods: periods.length > 0 ? periods : periodValues.periods
-          };
-        } else {
-          // Parse simple CSV format
-          const cashFlows = parseCSV(text);
-          if (cashFlows.length === 0) {
-            setError('No valid data found in CSV file.');
-            return;
-          }
-
-          newFlows = cashFlows.map((cf, idx) => ({
-            id: Date.now().toString() + idx,
-            date: cf.date.toISOString().split('T')[0],
-            amount: cf.amount.toString(),
-            description: cf.description || ''
-          }));
+        if (isBenchmarkCSV(text)) {
+          importBenchmark(file.name, text);
+          return;
         }
 
-        if (viewMode === 'multi-period') {
-          setPeriodFlows(newFlows);
-          if (extractedPeriodValues) {
-            setPeriodValues(extractedPeriodValues);
-          }
-        } else {
-          setFlows(newFlows);
-        }
-        setError('');
-        setResult(null);
+        setImportSource({ kind: 'text', name: file.name, text });
       } catch (err) {
         setError('Error parsing CSV file. Please check the format.');
       }
@@ -585,6 +577,29 @@ function App() {
     event.target.value = '';
   };
 
+  const downloadResultsWorkbook = () => {
+    if (!result) return;
+
+    const dates = cashFlows.map(cf => cf.date).sort(compareDates);
+    const workbook = buildResultsWorkbook(flows, [], [
+      {
+        label: 'All Cash Flows',
+        startDate: dates[0],
+        endDate: dates[dates.length - 1],
+        cashFlows: null,
+        result
+      }
+    ]);
+
+    const blob = new Blob([workbook], { type: XLSX_MIME_TYPE });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `xirr-results-${Date.now()}.xlsx`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
   const downloadTemplate = (format: 'csv' | 'json' = 'csv') => {
     if (format === 'json') {
       let jsonContent: any;
@@ -671,12 +686,13 @@ Example with Loss:
     window.URL.revokeObjectURL(url);
   };
 
-  const handleLoadDataset = (savedFlows: { date: string; amount: string; description: string }[], savedPeriodValues?: PeriodValues) => {
+  const handleLoadDataset = (savedFlows: { date: string; amount: string; description: string; marketValue?: string }[], savedPeriodValues?: PeriodValues) => {
     const newFlows: FlowInput[] = savedFlows.map((cf, idx) => ({
       id: Date.now().toString() + idx,
       date: cf.date,
       amount: cf.amount,
-      description: cf.description || ''
+      description: cf.description || '',
+      marketValue: cf.marketValue
     }));
 
     if (viewMode === 'multi-period') {
@@ -691,19 +707,41 @@ Example with Loss:
     setResult(null);
   };
 
-  const parseDateString = (dateStr: string): string => {
-    const cleanDate = dateStr.trim();
-    const parsedDate = new Date(cleanDate);
+  const handleImportRows = (importedFlows: ImportedFlow[], importedPeriods: Period[]) => {
+    const newFlows: FlowInput[] = importedFlows.map((row, idx) => ({
+      id: `${Date.now()}-${idx}`,
+      date: row.date,
+      amount: row.amount,
+      description: row.description,
+      marketValue: row.marketValue
+    }));
 
-    if (isNaN(parsedDate.getTime())) {
-      return '';
+    if (viewMode === 'multi-period') {
+      setPeriodFlows(newFlows);
+      if (importedPeriods.length > 0) {
+        setPeriodValues({ periods: importedPeriods });
+      }
+    } else {
+      setFlows(newFlows);
     }
+    setImportSource(null);
+    setImportWarnings([]);
+    setError('');
+    setResult(null);
+  };
 
-    const year = parsedDate.getFullYear();
-    const month = String(parsedDate.getMonth() + 1).padStart(2, '0');
-    const day = String(parsedDate.getDate()).padStart(2, '0');
+  // JSON has no import preview, so ambiguous dates and amounts are read as detected and flagged
+  const detectJSONFormats = (dates: unknown[], amounts: unknown[]): { date: DateFormat; number: NumberFormat } => {
+    const strings = (values: unknown[]) => values.filter((v): v is string => typeof v === 'string');
+    const date = detectDateFormat(strings(dates));
+    const number = detectNumberFormat(strings(amounts));
+    setImportWarnings(ambiguityWarnings(date, number));
+    return { date: date.format, number: number.format };
+  };
 
-    return `${year}-${month}-${day}`;
+  const toAmountString = (value: unknown, format: NumberFormat): string => {
+    const amount = parseAmountValue(value, format);
+    return amount === null ? '' : String(amount);
   };
 
   const handlePasteData = () => {
@@ -723,159 +761,7 @@ Example with Loss:
         return;
       }
 
-      const lines = trimmedData.split('\n').filter(line => line.trim());
-
-      if (lines.length === 0) {
-        setError('No data to paste');
-        return;
-      }
-
-      const newFlows: FlowInput[] = [];
-      let extractedPeriodValues: PeriodValues | null = null;
-
-      // Check if this is a multi-section template format
-      const hasMultiPeriodSections = pasteData.includes('Period Definitions:') ||
-                                     pasteData.includes('Period Label,Start Date,End Date');
-
-      if (viewMode === 'multi-period' && hasMultiPeriodSections) {
-        // Parse multi-section template format
-        const periods: Period[] = [];
-
-        let inPeriodSection = false;
-        let inCashFlowSection = false;
-
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-
-          // Toggle sections
-          if (trimmedLine.includes('Period Definitions:')) {
-            inPeriodSection = true;
-            inCashFlowSection = false;
-            continue;
-          }
-          if (trimmedLine.includes('Intermediate Cash Flows')) {
-            inPeriodSection = false;
-            inCashFlowSection = true;
-            continue;
-          }
-
-          // Skip headers
-          if (trimmedLine.startsWith('Period Label,')) {
-            continue;
-          }
-
-          // Parse period values section
-          if (inPeriodSection) {
-            let parts: string[];
-            if (trimmedLine.includes('\t')) {
-              parts = trimmedLine.split('\t');
-            } else {
-              parts = trimmedLine.split(',');
-            }
-
-            if (parts.length >= 5) {
-              const label = parts[0].trim();
-              const startDate = parseDateString(parts[1].trim());
-              const endDate = parseDateString(parts[2].trim());
-              const startValue = parts[3].trim().replace(/[^0-9.-]/g, '');
-              const endValue = parts[4].trim().replace(/[^0-9.-]/g, '');
-
-              if (startDate && endDate) {
-                periods.push({
-                  id: Date.now().toString() + periods.length,
-                  label,
-                  startDate,
-                  endDate,
-                  startValue,
-                  endValue
-                });
-              }
-            }
-            continue;
-          }
-
-          // Parse cash flows section
-          if (inCashFlowSection) {
-            let parts: string[];
-            if (trimmedLine.includes('\t')) {
-              parts = trimmedLine.split('\t');
-            } else {
-              parts = trimmedLine.split(',');
-            }
-
-            if (parts.length >= 2) {
-              const dateStr = parts[0].trim();
-              const amountStr = parts[1].trim();
-              const descriptionStr = parts.length > 2 ? parts[2].trim() : '';
-
-              const date = parseDateString(dateStr);
-              const amount = amountStr.replace(/[^0-9.-]/g, '');
-
-              if (date && amount && !isNaN(parseFloat(amount))) {
-                newFlows.push({
-                  id: `${Date.now()}-${newFlows.length}`,
-                  date,
-                  amount,
-                  description: descriptionStr
-                });
-              }
-            }
-          }
-        }
-
-        // Build extracted period values
-        extractedPeriodValues = {
-          periods: periods.length > 0 ? periods : periodValues.periods
-        };
-      } else {
-        // Parse simple format (single line per cash flow)
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i].trim();
-
-          let parts: string[];
-          if (line.includes('\t')) {
-            parts = line.split('\t');
-          } else if (line.includes(',')) {
-            parts = line.split(',');
-          } else {
-            continue;
-          }
-
-          if (parts.length < 2) continue;
-
-          const dateStr = parts[0].trim();
-          const amountStr = parts[1].trim();
-          const descriptionStr = parts.length > 2 ? parts[2].trim() : '';
-
-          const date = parseDateString(dateStr);
-          const amount = amountStr.replace(/[^0-9.-]/g, '');
-
-          if (date && amount && !isNaN(parseFloat(amount))) {
-            newFlows.push({
-              id: `${Date.now()}-${i}`,
-              date,
-              amount,
-              description: descriptionStr
-            });
-          }
-        }
-      }
-
-      if (newFlows.length === 0 && viewMode === 'simple') {
-        setError('No valid data found. Please ensure your data has dates and amounts.');
-        return;
-      }
-
-      if (viewMode === 'multi-period') {
-        setPeriodFlows(newFlows);
-        if (extractedPeriodValues) {
-          setPeriodValues(extractedPeriodValues);
-        }
-      } else {
-        setFlows(newFlows);
-      }
-      setError('');
-      setResult(null);
+      setImportSource({ kind: 'text', name: 'Pasted Data', text: trimmedData });
       setShowPasteDialog(false);
       setPasteData('');
     } catch (err) {
@@ -896,13 +782,81 @@ Example with Loss:
                 </h1>
                 <p className="text-blue-100 mt-2">Calculate Extended Internal Rate of Return (XIRR) for your investments</p>
               </div>
+              <AccountMenu onSignIn={() => setAuthMode('sign-in')} />
             </div>
           </div>
 
           <div className="p-8">
-            {apiMetadata && (
+            {sessionExpired && !user && (
+              <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start justify-between gap-4">
+                <div className="flex items-start gap-2 text-sm text-amber-800">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>Your session has expired. Your current data is still here, but sign in again to save or load datasets.</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setAuthMode('sign-in')}
+                    className="px-3 py-1.5 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors text-sm font-medium whitespace-nowrap"
+                  >
+                    Sign In Again
+                  </button>
+                  <button onClick={dismissSessionExpired} className="text-amber-500 hover:text-amber-700">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {importWarnings.length > 0 && (
+              <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start justify-between gap-4">
+                <div className="text-sm text-amber-800 space-y-1">
+                  {importWarnings.map(warning => (
+                    <p key={warning} className="flex items-start gap-2">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>{warning}</span>
+                    </p>
+                  ))}
+                  <p className="text-xs text-amber-700">Check the imported values. Writing dates as YYYY-MM-DD and amounts as plain numbers avoids the ambiguity.</p>
+                </div>
+                <button onClick={() => setImportWarnings([])} className="text-amber-500 hover:text-amber-700">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            {(apiMetadata || apiData) && (
               <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                <h3 className="text-sm font-semibold text-blue-900 mb-2">API Data Information</h3>
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <h3 className="text-sm font-semibold text-blue-900">API Data Information</h3>
+                  {apiData && (
+                    <div className="flex items-center gap-2">
+                      <label
+                        htmlFor="response-upload"
+                        className="flex items-center gap-2 px-3 py-1.5 bg-white border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 transition-colors cursor-pointer text-sm font-medium"
+                        title="Load the service's xirr-results response to reconcile against this request"
+                      >
+                        <Scale className="w-4 h-4" />
+                        Load Response
+                        <input
+                          id="response-upload"
+                          type="file"
+                          accept=".json"
+                          onChange={handleResponseUpload}
+                          className="hidden"
+                        />
+                      </label>
+                      <button
+                        onClick={evaluateAllCalculations}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+                        title="Calculate every window of every calculation and download an xirr-results file"
+                      >
+                        <PlayCircle className="w-4 h-4" />
+                        Evaluate All ({apiData.calculations.length} calcs)
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {apiMetadata && (
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm mb-4">
                   <div>
                     <span className="text-slate-600 font-medium">Request ID:</span>
@@ -917,6 +871,7 @@ Example with Loss:
                     <span className="ml-2 text-slate-800 font-semibold">{apiMetadata.scorecard}</span>
                   </div>
                 </div>
+                )}
 
                 {selectedCalcType && (
                   <div className="pt-4 border-t border-blue-200">
@@ -956,7 +911,17 @@ Example with Loss:
               </div>
             )}
 
-            <div className="flex justify-center mb-6">
+            {apiData && apiResponse && (
+              <ReconciliationView
+                request={apiData}
+                response={apiResponse}
+                dayCount={dayCount}
+                mode={xirrMode}
+                onClose={() => setApiResponse(null)}
+              />
+            )}
+
+            <div className="flex flex-wrap justify-center items-center gap-y-3 mb-6">
               <div className="inline-flex rounded-lg bg-slate-100 p-1">
                 <button
                   onClick={() => setViewMode('simple')}
@@ -981,6 +946,66 @@ Example with Loss:
                   Multi-Period Analysis
                 </button>
               </div>
+              <div className="ml-4 flex items-center gap-2" title={XIRR_MODES.find(m => m.value === xirrMode)?.description}>
+                <label htmlFor="xirr-mode" className="text-sm text-slate-600 font-medium">XIRR:</label>
+                <select
+                  id="xirr-mode"
+                  value={xirrMode}
+                  onChange={(e) => {
+                    setXirrMode(e.target.value as XIRRMode);
+                    setResult(null);
+                    setMirrResult(null);
+                  }}
+                  className="px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm font-medium text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {XIRR_MODES.map(mode => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="ml-4 flex items-center gap-2">
+                <label htmlFor="day-count" className="text-sm text-slate-600 font-medium">Day Count:</label>
+                <select
+                  id="day-count"
+                  value={dayCount}
+                  onChange={(e) => {
+                    setDayCount(e.target.value as DayCountConvention);
+                    setResult(null);
+                    setMirrResult(null);
+                  }}
+                  className="px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm font-medium text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {DAY_COUNT_CONVENTIONS.map(convention => (
+                    <option key={convention.value} value={convention.value}>{convention.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="ml-4 flex items-center gap-2" title="Rates used for MIRR: outflows are financed at the finance rate, inflows reinvested at the reinvestment rate">
+                <label htmlFor="finance-rate" className="text-sm text-slate-600 font-medium">Finance %:</label>
+                <input
+                  id="finance-rate"
+                  type="number"
+                  step="0.1"
+                  value={financeRate}
+                  onChange={(e) => {
+                    setFinanceRate(e.target.value);
+                    setMirrResult(null);
+                  }}
+                  className="w-20 px-2 py-2 bg-white border border-slate-300 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <label htmlFor="reinvestment-rate" className="text-sm text-slate-600 font-medium">Reinvest %:</label>
+                <input
+                  id="reinvestment-rate"
+                  type="number"
+                  step="0.1"
+                  value={reinvestmentRate}
+                  onChange={(e) => {
+                    setReinvestmentRate(e.target.value);
+                    setMirrResult(null);
+                  }}
+                  className="w-20 px-2 py-2 bg-white border border-slate-300 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
             </div>
 
             <div className="flex flex-col sm:flex-row gap-3 mb-8 flex-wrap">
@@ -988,8 +1013,8 @@ Example with Loss:
                 onLoad={handleLoadDataset}
                 currentFlows={
                   viewMode === 'multi-period'
-                    ? periodFlows.map(f => ({ date: f.date, amount: f.amount, description: f.description }))
-                    : flows.map(f => ({ date: f.date, amount: f.amount, description: f.description }))
+                    ? periodFlows.map(f => ({ date: f.date, amount: f.amount, description: f.description, marketValue: f.marketValue }))
+                    : flows.map(f => ({ date: f.date, amount: f.amount, description: f.description, marketValue: f.marketValue }))
                 }
                 periodValues={viewMode === 'multi-period' ? periodValues : undefined}
                 isMultiPeriod={viewMode === 'multi-period'}
@@ -1020,16 +1045,33 @@ Example with Loss:
                 className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors cursor-pointer font-medium"
               >
                 <Upload className="w-4 h-4" />
-                Upload CSV/JSON
+                Upload CSV/JSON/Excel
                 <input
                   id="file-upload"
                   type="file"
-                  accept=".csv,.json"
+                  accept=".csv,.json,.xlsx"
                   onChange={handleFileUpload}
                   className="hidden"
                   onClick={(e) => console.log('File input clicked', e)}
                 />
               </label>
+              {viewMode === 'multi-period' && (
+                <label
+                  htmlFor="benchmark-upload"
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-teal-50 text-teal-700 rounded-lg hover:bg-teal-100 transition-colors cursor-pointer font-medium"
+                  title="Upload a Date,Level CSV of benchmark index levels for PME analysis"
+                >
+                  <LineChart className="w-4 h-4" />
+                  Upload Benchmark{benchmarks.length > 0 ? ` (${benchmarks.length})` : ''}
+                  <input
+                    id="benchmark-upload"
+                    type="file"
+                    accept=".csv,.txt"
+                    onChange={handleBenchmarkUpload}
+                    className="hidden"
+                  />
+                </label>
+              )}
             </div>
 
             {viewMode === 'simple' ? (
@@ -1064,8 +1106,9 @@ Example with Loss:
               <div className="space-y-3">
                 <div className="grid grid-cols-12 gap-3 text-sm font-medium text-slate-600 px-2">
                   <div className="col-span-3">Date</div>
-                  <div className="col-span-3">Amount</div>
-                  <div className="col-span-5">Description</div>
+                  <div className="col-span-2">Amount</div>
+                  <div className="col-span-2" title="Portfolio value on the flow date, before the flow (used for rolling returns)">Market Value</div>
+                  <div className="col-span-4">Description</div>
                   <div className="col-span-1"></div>
                 </div>
 
@@ -1083,14 +1126,22 @@ Example with Loss:
                       value={flow.amount}
                       onChange={(e) => updateFlow(flow.id, 'amount', e.target.value)}
                       placeholder="Amount"
-                      className="col-span-3 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      className="col-span-2 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={flow.marketValue || ''}
+                      onChange={(e) => updateFlow(flow.id, 'marketValue', e.target.value)}
+                      placeholder="Optional"
+                      className="col-span-2 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     />
                     <input
                       type="text"
                       value={flow.description}
                       onChange={(e) => updateFlow(flow.id, 'description', e.target.value)}
                       placeholder="Description"
-                      className="col-span-5 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      className="col-span-4 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     />
                     <button
                       onClick={() => removeFlow(flow.id)}
@@ -1109,7 +1160,7 @@ Example with Loss:
                   <li>Use negative amounts for investments/outflows (e.g., -100000)</li>
                   <li>Use positive amounts for returns/inflows (e.g., 115000)</li>
                   <li>Enter dates in chronological order for best results</li>
-                  <li>Returns over 12 months are automatically annualized</li>
+                  <li>Returns over periods of at least 12 months are automatically annualized</li>
                 </ul>
                 <div className="mt-3 pt-3 border-t border-blue-200">
                   <p className="font-medium mb-2 text-amber-700">For Losses & Negative Positions:</p>
@@ -1137,9 +1188,48 @@ Example with Loss:
                   </div>
                 )}
 
+                {!result && mirrResult && (
+                  <div className="mt-4 p-4 bg-white border border-slate-200 rounded-lg shadow-sm">
+                    <div className="text-sm text-slate-600 mb-1">MIRR (Modified IRR)</div>
+                    <div className={`text-2xl font-bold ${mirrResult.mirr >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {mirrResult.mirrPercent}%
+                    </div>
+                    <div className="text-xs text-slate-500 mt-1">
+                      Finance {(mirrResult.financeRate * 100).toFixed(2)}% / reinvestment {(mirrResult.reinvestmentRate * 100).toFixed(2)}% — unique even when XIRR cannot be solved
+                    </div>
+                  </div>
+                )}
+
                 {result && (
               <div className="mt-8 p-6 bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl border border-green-200">
-                <h3 className="text-2xl font-bold text-slate-800 mb-6">Results</h3>
+                <div className="flex items-center justify-between mb-6">
+                  <h3 className="text-2xl font-bold text-slate-800">Results</h3>
+                  <button
+                    onClick={downloadResultsWorkbook}
+                    className="flex items-center gap-2 px-4 py-2 bg-white text-slate-700 rounded-lg hover:bg-slate-50 border border-slate-200 transition-colors font-medium text-sm"
+                    title="Flows and results with a live =XIRR() formula to check against Excel"
+                  >
+                    <FileSpreadsheet className="w-4 h-4" />
+                    Download Excel
+                  </button>
+                </div>
+
+                {result.multipleRoots && (
+                  <div className="mb-6 flex items-start gap-3 p-4 bg-amber-50 border border-amber-300 rounded-lg">
+                    <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                    <div>
+                      <p className="text-sm font-semibold text-amber-800">Multiple IRRs — rate is not unique</p>
+                      <p className="text-xs text-amber-700 mt-1">{result.warning}</p>
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {result.roots.map(root => (
+                          <span key={root} className="font-mono text-xs font-semibold text-amber-900 bg-amber-100 px-2 py-1 rounded">
+                            {(root * 100).toFixed(4)}%
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
                   <div className="bg-white p-4 rounded-lg shadow-sm">
@@ -1150,6 +1240,18 @@ Example with Loss:
                     <div className="text-xs text-slate-500 mt-1">Annualized rate of return</div>
                   </div>
 
+                  {mirrResult && (
+                    <div className="bg-white p-4 rounded-lg shadow-sm">
+                      <div className="text-sm text-slate-600 mb-1">MIRR (Modified IRR)</div>
+                      <div className={`text-3xl font-bold ${mirrResult.mirr >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {mirrResult.mirrPercent}%
+                      </div>
+                      <div className="text-xs text-slate-500 mt-1">
+                        Finance {(mirrResult.financeRate * 100).toFixed(2)}% / reinvestment {(mirrResult.reinvestmentRate * 100).toFixed(2)}%
+                      </div>
+                    </div>
+                  )}
+
                   {!result.annualized && (
                     <div className="bg-white p-4 rounded-lg shadow-sm">
                       <div className="text-sm text-slate-600 mb-1">Simple Return (Non-Annualized)</div>
@@ -1166,7 +1268,7 @@ Example with Loss:
                       {Math.round(result.totalDays)} days
                     </div>
                     <div className="text-sm text-slate-500">
-                      ({(result.totalDays / 365.25).toFixed(2)} years)
+                      ({result.years.toFixed(2)} years, {result.dayCount})
                     </div>
                   </div>
 
@@ -1199,12 +1301,48 @@ Example with Loss:
                   </div>
                 </div>
 
+                {multiples && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                    <div className="bg-white p-4 rounded-lg shadow-sm">
+                      <div className="text-sm text-slate-600 mb-1">TVPI</div>
+                      <div className="text-2xl font-bold text-slate-800">{multiples.tvpi.toFixed(2)}x</div>
+                      <div className="text-xs text-slate-500 mt-1">Total value / paid-in</div>
+                    </div>
+                    <div className="bg-white p-4 rounded-lg shadow-sm">
+                      <div className="text-sm text-slate-600 mb-1">DPI</div>
+                      <div className="text-2xl font-bold text-slate-800">{multiples.dpi.toFixed(2)}x</div>
+                      <div className="text-xs text-slate-500 mt-1">Distributions / paid-in</div>
+                    </div>
+                    <div className="bg-white p-4 rounded-lg shadow-sm">
+                      <div className="text-sm text-slate-600 mb-1">RVPI</div>
+                      <div className="text-2xl font-bold text-slate-800">{multiples.rvpi.toFixed(2)}x</div>
+                      <div className="text-xs text-slate-500 mt-1">Residual value / paid-in</div>
+                    </div>
+                    <div className="bg-white p-4 rounded-lg shadow-sm">
+                      <div className="text-sm text-slate-600 mb-1">Paid-In Capital</div>
+                      <div className="text-2xl font-bold text-slate-800">
+                        ${multiples.paidInCapital.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 <div className="bg-white p-4 rounded-lg shadow-sm">
                   <div className="text-sm text-slate-600 mb-1">Net Cash Flow</div>
                   <div className={`text-2xl font-bold ${result.netCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                     ${result.netCashFlow.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                   </div>
                 </div>
+
+                <div className="mt-6">
+                  <CashFlowCharts cashFlows={cashFlows} result={result} />
+                </div>
+              </div>
+            )}
+
+            {result && (
+              <div className="mt-8">
+                <MultiPeriodAnalysis cashFlows={cashFlows} dayCount={dayCount} xirrMode={xirrMode} />
               </div>
             )}
           </>
@@ -1214,7 +1352,11 @@ Example with Loss:
             setPeriodValues={setPeriodValues}
             flows={periodFlows}
             setFlows={setPeriodFlows}
-            buildPeriodCashFlows={buildPeriodCashFlows}
+            dayCount={dayCount}
+            xirrMode={xirrMode}
+            financeRate={(parseFloat(financeRate) || 0) / 100}
+            reinvestmentRate={(parseFloat(reinvestmentRate) || 0) / 100}
+            benchmarks={benchmarks}
           />
         )}
           </div>
@@ -1256,7 +1398,7 @@ JSON format:
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono text-sm"
                 />
                 <p className="mt-2 text-xs text-slate-500">
-                  Supports CSV (Date,Amount,Description), tab-delimited, or JSON array format
+                  Supports CSV (comma or semicolon), tab-delimited, or JSON array format. CSV data opens a preview where you can map the columns.
                 </p>
               </div>
 
@@ -1283,6 +1425,15 @@ JSON format:
         </div>
       )}
 
+      {importSource && (
+        <ImportWizard
+          source={importSource}
+          includePeriods={viewMode === 'multi-period'}
+          onImport={handleImportRows}
+          onClose={() => setImportSource(null)}
+        />
+      )}
+
       {showCalcSelector && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-xl p-6 max-w-3xl w-full max-h-[80vh] overflow-hidden flex flex-col">
@@ -1346,6 +1497,12 @@ JSON format:
           </div>
         </div>
       )}
+
+      {authMode && (
+        <Auth key={authMode} initialMode={authMode} onClose={() => setAuthMode(null)} />
+      )}
+
+      <LocalDatasetMigration />
     </div>
   );
 }
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { LogIn, LogOut, UserRound, Loader2 } from 'lucide-react';
+import { useAuth } from '../lib/AuthContext';
+
+interface AccountMenuProps {
+  onSignIn: () => void;
+}
+
+export function AccountMenu({ onSignIn }: AccountMenuProps) {
+  const { user, loading, signOut } = useAuth();
+  const [signingOut, setSigningOut] = useState(false);
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    try {
+      await signOut();
+    } finally {
+      setSigningOut(false);
+    }
+  };
+
+  if (loading) {
+    return <Loader2 className="w-5 h-5 text-blue-100 animate-spin" />;
+  }
+
+  if (!user) {
+    return (
+      <div className="flex flex-col items-end gap-1">
+        <button
+          onClick={onSignIn}
+          className="flex items-center gap-2 px-4 py-2 bg-white text-blue-700 rounded-lg hover:bg-blue-50 transition-colors font-medium text-sm"
+        >
+          <LogIn className="w-4 h-4" />
+          Sign In
+        </button>
+        <span className="text-xs text-blue-100">Sign in to save datasets to the cloud</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <span className="flex items-center gap-2 text-sm text-white" title={user.email}>
+        <UserRound className="w-5 h-5" />
+        <span className="max-w-[14rem] truncate">{user.email}</span>
+      </span>
+      <button
+        onClick={handleSignOut}
+        disabled={signingOut}
+        className="flex items-center gap-2 px-3 py-1.5 bg-blue-800 bg-opacity-40 text-white rounded-lg hover:bg-opacity-60 transition-colors text-sm font-medium disabled:opacity-50"
+      >
+        <LogOut className="w-4 h-4" />
+        {signingOut ? 'Signing out...' : 'Sign Out'}
+      </button>
+    </div>
+  );
+}
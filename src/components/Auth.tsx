@@ -1,27 +1,73 @@
 import { useState } from 'react';
-import { LogIn, UserPlus } from 'lucide-react';
+import { LogIn, UserPlus, KeyRound, X } from 'lucide-react';
 import { useAuth } from '../lib/AuthContext';
 
-export function Auth() {
-  const [isSignUp, setIsSignUp] = useState(false);
+export type AuthMode = 'sign-in' | 'sign-up' | 'reset' | 'update';
+
+interface AuthProps {
+  initialMode?: AuthMode;
+  onClose: () => void;
+}
+
+const TITLES: Record<AuthMode, { title: string; subtitle: string }> = {
+  'sign-in': { title: 'Welcome Back', subtitle: 'Sign in to access your saved data' },
+  'sign-up': { title: 'Create Account', subtitle: 'Sign up to save your cash flow data' },
+  reset: { title: 'Reset Password', subtitle: "We'll email you a link to choose a new password" },
+  update: { title: 'Choose a New Password', subtitle: 'Enter the password you want to use from now on' }
+};
+
+export function Auth({ initialMode = 'sign-in', onClose }: AuthProps) {
+  const [mode, setMode] = useState<AuthMode>(initialMode);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signUp, signIn } = useAuth();
+  const { signUp, signIn, resetPassword, updatePassword } = useAuth();
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError('');
+    setMessage('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setMessage('');
     setLoading(true);
 
     try {
-      const { error } = isSignUp
+      if (mode === 'reset') {
+        const { error } = await resetPassword(email);
+        if (error) {
+          setError(error.message);
+        } else {
+          setMessage('Check your email for a link to reset your password.');
+        }
+        return;
+      }
+
+      if (mode === 'update') {
+        const { error } = await updatePassword(password);
+        if (error) {
+          setError(error.message);
+        } else {
+          alert('Password updated successfully!');
+          onClose();
+        }
+        return;
+      }
+
+      const { error } = mode === 'sign-up'
         ? await signUp(email, password)
         : await signIn(email, password);
 
       if (error) {
         setError(error.message);
+      } else if (mode === 'sign-up') {
+        // With email confirmation enabled there is no session until the link is followed
+        setMessage('Account created. If asked to confirm your email, follow the link we sent, then sign in.');
       }
     } catch (err) {
       setError('An unexpected error occurred');
@@ -30,19 +76,24 @@ export function Auth() {
     }
   };
 
+  const needsEmail = mode !== 'update';
+  const needsPassword = mode !== 'reset';
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center p-4">
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md">
+        <div className="flex justify-end -mt-4 -mr-4">
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
         <div className="text-center mb-8">
-          <h1 className="text-3xl font-bold text-slate-800 mb-2">
-            {isSignUp ? 'Create Account' : 'Welcome Back'}
-          </h1>
-          <p className="text-slate-600">
-            {isSignUp ? 'Sign up to save your cash flow data' : 'Sign in to access your saved data'}
-          </p>
+          <h1 className="text-3xl font-bold text-slate-800 mb-2">{TITLES[mode].title}</h1>
+          <p className="text-slate-600">{TITLES[mode].subtitle}</p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {needsEmail && (
           <div>
             <label htmlFor="email" className="block text-sm font-medium text-slate-700 mb-1">
               Email
@@ -57,11 +108,24 @@ export function Auth() {
               placeholder="you@example.com"
             />
           </div>
+          )}
 
+          {needsPassword && (
           <div>
-            <label htmlFor="password" className="block text-sm font-medium text-slate-700 mb-1">
-              Password
-            </label>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="password" className="block text-sm font-medium text-slate-700">
+                {mode === 'update' ? 'New Password' : 'Password'}
+              </label>
+              {mode === 'sign-in' && (
+                <button
+                  type="button"
+                  onClick={() => switchMode('reset')}
+                  className="text-blue-600 hover:text-blue-700 text-xs font-medium"
+                >
+                  Forgot password?
+                </button>
+              )}
+            </div>
             <input
               id="password"
               type="password"
@@ -73,6 +137,7 @@ export function Auth() {
               placeholder="••••••••"
             />
           </div>
+          )}
 
           {error && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
@@ -80,6 +145,12 @@ export function Auth() {
             </div>
           )}
 
+          {message && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+              {message}
+            </div>
+          )}
+
           <button
             type="submit"
             disabled={loading}
@@ -89,24 +160,23 @@ export function Auth() {
               'Please wait...'
             ) : (
               <>
-                {isSignUp ? <UserPlus className="w-5 h-5" /> : <LogIn className="w-5 h-5" />}
-                {isSignUp ? 'Sign Up' : 'Sign In'}
+                {mode === 'sign-up' ? <UserPlus className="w-5 h-5" /> : mode === 'sign-in' ? <LogIn className="w-5 h-5" /> : <KeyRound className="w-5 h-5" />}
+                {mode === 'sign-up' ? 'Sign Up' : mode === 'sign-in' ? 'Sign In' : mode === 'reset' ? 'Send Reset Link' : 'Update Password'}
               </>
             )}
           </button>
         </form>
 
+        {mode !== 'update' && (
         <div className="mt-6 text-center">
           <button
-            onClick={() => {
-              setIsSignUp(!isSignUp);
-              setError('');
-            }}
+            onClick={() => switchMode(mode === 'sign-in' ? 'sign-up' : 'sign-in')}
             className="text-blue-600 hover:text-blue-700 text-sm font-medium"
           >
-            {isSignUp ? 'Already have an account? Sign in' : "Don't have an account? Sign up"}
+            {mode === 'sign-in' ? "Don't have an account? Sign up" : mode === 'sign-up' ? 'Already have an account? Sign in' : 'Back to sign in'}
           </button>
         </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,121 @@
+import { useMemo, useState } from 'react';
+import { CalendarRange, X, AlertTriangle } from 'lucide-react';
+import { CalendarPeriodKind, CalendarPeriodOptions, generateCalendarPeriods, parseCalendarPeriodId, parseValuations } from '../utils/calendarPeriods';
+import { Period } from '../utils/periodResults';
+
+interface CalendarPeriodGeneratorProps {
+  initialValuations: string;
+  onGenerate: (periods: Period[]) => void;
+  onClose: () => void;
+}
+
+const PERIOD_KINDS: { value: keyof CalendarPeriodOptions; kind: CalendarPeriodKind; label: string }[] = [
+  { value: 'quarters', kind: 'quarter', label: 'Calendar quarters' },
+  { value: 'years', kind: 'year', label: 'Calendar years' },
+  { value: 'ytd', kind: 'ytd', label: 'Year to date' },
+  { value: 'qtd', kind: 'qtd', label: 'Quarter to date' }
+];
+
+export function CalendarPeriodGenerator({ initialValuations, onGenerate, onClose }: CalendarPeriodGeneratorProps) {
+  const [valuationText, setValuationText] = useState(initialValuations);
+  const [options, setOptions] = useState<CalendarPeriodOptions>({ quarters: true, years: true, ytd: true, qtd: true });
+
+  const { valuations, errors, warnings } = useMemo(() => parseValuations(valuationText), [valuationText]);
+  const periods = useMemo(() => generateCalendarPeriods(valuations, options), [valuations, options]);
+
+  const counts = PERIOD_KINDS.map(kind => ({
+    ...kind,
+    count: periods.filter(p => parseCalendarPeriodId(p.id)?.kind === kind.kind).length
+  }));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <CalendarRange className="w-5 h-5 text-blue-600" />
+            Generate Calendar Periods
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Period-End Valuations</label>
+            <p className="text-xs text-slate-500 mb-2">
+              One <span className="font-mono">YYYY-MM-DD,value</span> per line. Valuations within a week before a quarter-end
+              count as that quarter-end. Prefilled from flow market values and existing period values.
+            </p>
+            <textarea
+              value={valuationText}
+              onChange={(e) => setValuationText(e.target.value)}
+              rows={10}
+              placeholder={'Date,Value\n2023-12-31,1000000\n2024-03-31,1042000'}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+            />
+            {errors.length > 0 && (
+              <div className="mt-2 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800 space-y-0.5">
+                {errors.slice(0, 5).map(error => (
+                  <p key={error} className="flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    {error}
+                  </p>
+                ))}
+                {errors.length > 5 && <p>…and {errors.length - 5} more</p>}
+              </div>
+            )}
+            {warnings.length > 0 && (
+              <div className="mt-2 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800 space-y-0.5">
+                {warnings.map(warning => (
+                  <p key={warning} className="flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {counts.map(kind => (
+              <label key={kind.value} className="flex items-center justify-between gap-2 p-3 border border-slate-200 rounded-lg text-sm text-slate-700">
+                <span className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={options[kind.value]}
+                    onChange={(e) => setOptions({ ...options, [kind.value]: e.target.checked })}
+                    className="rounded border-slate-300"
+                  />
+                  {kind.label}
+                </span>
+                <span className="text-xs font-mono text-slate-500">{kind.count}</span>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Generated periods replace previously generated ones and any periods without values. Periods you entered by hand are kept.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onGenerate(periods)}
+            disabled={periods.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Generate {periods.length} Period{periods.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { Grid3x3 } from 'lucide-react';
+import { CalendarPeriodKey, parseCalendarPeriodId } from '../utils/calendarPeriods';
+import { PeriodResult } from '../utils/periodResults';
+
+interface CalendarReturnsMatrixProps {
+  results: PeriodResult[];
+}
+
+interface MatrixCell {
+  result: PeriodResult;
+  partial: boolean;
+}
+
+const QUARTERS = [1, 2, 3, 4];
+
+function cellValue(cell: MatrixCell | undefined) {
+  if (!cell) {
+    return <span className="text-slate-300">—</span>;
+  }
+  const { result } = cell.result;
+  if (!result) {
+    return <span className="text-amber-600 text-xs" title={cell.result.error}>n/a</span>;
+  }
+  return (
+    <span className={result.reportedReturn >= 0 ? 'text-green-600' : 'text-red-600'}>
+      {result.reportedReturnPercent}%
+      {cell.partial && <span className="ml-1 text-[10px] text-slate-400 font-sans">{cell.result.period.split(' ')[0]}</span>}
+    </span>
+  );
+}
+
+export function CalendarReturnsMatrix({ results }: CalendarReturnsMatrixProps) {
+  const cells = new Map<string, MatrixCell>();
+  const years = new Set<number>();
+
+  for (const result of results) {
+    const key: CalendarPeriodKey | null = parseCalendarPeriodId(result.periodId);
+    if (!key) continue;
+
+    years.add(key.year);
+    // QTD sits in its quarter's column and YTD in the year column, flagged as partial
+    const column = key.kind === 'quarter' || key.kind === 'qtd' ? `q${key.quarter}` : 'year';
+    cells.set(`${key.year}-${column}`, { result, partial: key.kind === 'ytd' || key.kind === 'qtd' });
+  }
+
+  if (years.size === 0) {
+    return null;
+  }
+
+  const sortedYears = [...years].sort((a, b) => b - a);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2 mb-1">
+        <Grid3x3 className="w-5 h-5 text-blue-600" />
+        Calendar Returns
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">Cumulative return for each calendar quarter and year</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <th className="text-left font-medium px-3 py-2">Year</th>
+              {QUARTERS.map(q => (
+                <th key={q} className="text-right font-medium px-3 py-2">Q{q}</th>
+              ))}
+              <th className="text-right font-medium px-3 py-2 border-l border-slate-200">Year</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {sortedYears.map(year => (
+              <tr key={year}>
+                <td className="px-3 py-2 font-semibold text-slate-800">{year}</td>
+                {QUARTERS.map(q => (
+                  <td key={q} className="px-3 py-2 text-right font-mono">{cellValue(cells.get(`${year}-q${q}`))}</td>
+                ))}
+                <td className="px-3 py-2 text-right font-mono font-semibold border-l border-slate-200">
+                  {cellValue(cells.get(`${year}-year`))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useMemo, useState } from 'react';
+import { CashFlow, XIRRResult } from '../utils/xirr';
+import { JCurvePoint, NPVMarker, NPVProfile, buildJCurve, buildNPVProfile } from '../utils/cashFlowCharts';
+import { formatCalendarDate, toDayNumber } from '../utils/calendarDate';
+import { niceTicks, yearTicks } from '../utils/chartScale';
+
+interface CashFlowChartsProps {
+  cashFlows: CashFlow[];
+  result: XIRRResult;
+  // Stacks the charts at a size that fits a period card
+  compact?: boolean;
+}
+
+interface ChartSize {
+  width: number;
+  height: number;
+}
+
+const PADDING = { top: 16, right: 16, bottom: 32, left: 56 };
+
+const MARKER_CLASSES: Record<NPVMarker['kind'], string> = {
+  newton: 'fill-blue-600 stroke-blue-600',
+  brent: 'fill-green-600 stroke-green-600',
+  root: 'fill-amber-500 stroke-amber-500'
+};
+
+const MARKER_SWATCHES: Record<NPVMarker['kind'], string> = {
+  newton: 'bg-blue-600',
+  brent: 'bg-green-600',
+  root: 'bg-amber-500'
+};
+
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : ''}$${compactNumber.format(Math.abs(value))}`;
+
+const formatCurrency = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatRate = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`;
+
+// Scales the value axis to the ticks, always including zero
+function valueScale(values: number[], top: number, plotHeight: number) {
+  const all = [...values.filter(isFinite), 0];
+  const ticks = niceTicks(Math.min(...all), Math.max(...all), 4);
+  const min = Math.min(ticks[0], ...all);
+  const max = Math.max(ticks[ticks.length - 1], ...all);
+  const y = (value: number) => top + (max === min ? plotHeight / 2 : ((max - value) / (max - min)) * plotHeight);
+  return { ticks, y };
+}
+
+// The pointer's x position in viewBox units
+function pointerX(event: React.MouseEvent<SVGSVGElement>, width: number): number {
+  const box = event.currentTarget.getBoundingClientRect();
+  return ((event.clientX - box.left) / box.width) * width;
+}
+
+function nearestIndex(xs: number[], x: number): number {
+  return xs.reduce((best, value, i) => (Math.abs(value - x) < Math.abs(xs[best] - x) ? i : best), 0);
+}
+
+function JCurveChart({ points, width, height }: { points: JCurvePoint[] } & ChartSize) {
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  if (points.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-slate-500 bg-slate-50 rounded-lg" style={{ height }}>
+        No cash flows to chart
+      </div>
+    );
+  }
+
+  const first = points[0].date;
+  const last = points[points.length - 1].date;
+  const firstDay = toDayNumber(first);
+  const span = toDayNumber(last) - firstDay;
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const barWidth = Math.min(14, Math.max(2, (plotWidth / points.length) * 0.6));
+  // Inset by half a bar so the first and last bars stay inside the plot
+  const x = (day: number) => PADDING.left + barWidth / 2 + (span === 0 ? (plotWidth - barWidth) / 2 : ((day - firstDay) / span) * (plotWidth - barWidth));
+  const xs = points.map(p => x(toDayNumber(p.date)));
+  const { ticks, y } = valueScale(points.flatMap(p => [p.contributions, p.distributions, p.cumulative]), PADDING.top, plotHeight);
+
+  const dateTicks = yearTicks(first, last, width < 500 ? 4 : 8);
+  const xLabels = dateTicks.length >= 2
+    ? dateTicks.map(date => ({ date, label: date.slice(0, 4) }))
+    : [first, last].filter((date, i) => i === 0 || date !== first).map(date => ({ date, label: formatCalendarDate(date, { month: 'short', year: 'numeric' }) }));
+
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${xs[i].toFixed(1)},${y(p.cumulative).toFixed(1)}`).join('');
+  const shown = points[hovered ?? points.length - 1];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-auto"
+        role="img"
+        onMouseMove={(e) => setHovered(nearestIndex(xs, pointerX(e, width)))}
+        onMouseLeave={() => setHovered(null)}
+      >
+        {ticks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={width - PADDING.right} y1={y(tick)} y2={y(tick)} className={tick === 0 ? 'stroke-slate-400' : 'stroke-slate-200'} />
+            <text x={PADDING.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[11px]">
+              {formatMoney(tick)}
+            </text>
+          </g>
+        ))}
+        {xLabels.map(({ date, label }) => (
+          <text key={date} x={x(toDayNumber(date))} y={height - 10} textAnchor="middle" className="fill-slate-500 text-[11px]">
+            {label}
+          </text>
+        ))}
+        {hovered !== null && (
+          <line x1={xs[hovered]} x2={xs[hovered]} y1={PADDING.top} y2={height - PADDING.bottom} className="stroke-slate-300" />
+        )}
+        {points.map((p, i) => (
+          <g key={p.date}>
+            {p.contributions < 0 && (
+              <rect x={xs[i] - barWidth / 2} y={y(0)} width={barWidth} height={y(p.contributions) - y(0)} className="fill-red-400" />
+            )}
+            {p.distributions > 0 && (
+              <rect x={xs[i] - barWidth / 2} y={y(p.distributions)} width={barWidth} height={y(0) - y(p.distributions)} className="fill-green-500" />
+            )}
+          </g>
+        ))}
+        <path d={line} fill="none" strokeWidth={2} className="stroke-blue-600" />
+        {points.length <= 120 && points.map((p, i) => (
+          <circle key={p.date} cx={xs[i]} cy={y(p.cumulative)} r={i === hovered ? 4 : 2.5} className="fill-blue-600" />
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600 mt-1">
+        <span className="font-medium text-slate-700">{formatCalendarDate(shown.date, { year: 'numeric', month: 'short', day: 'numeric' }, 'en-US')}</span>
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-sm bg-red-400" /> Contributions {formatCurrency(shown.contributions)}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-sm bg-green-500" /> Distributions {formatCurrency(shown.distributions)}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-full bg-blue-600" /> Cumulative {formatCurrency(shown.cumulative)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function NPVProfileChart({ profile, result, width, height }: { profile: NPVProfile; result: XIRRResult } & ChartSize) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const { points, markers } = profile;
+
+  const from = points[0].rate;
+  const to = points[points.length - 1].rate;
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (rate: number) => PADDING.left + ((rate - from) / (to - from)) * plotWidth;
+  const xs = points.map(p => x(p.rate));
+  const { ticks, y } = valueScale([...points.map(p => p.npv), ...markers.map(m => m.npv)], PADDING.top, plotHeight);
+
+  const rateTicks = niceTicks(from, to, width < 500 ? 4 : 8);
+  const rateDigits = rateTicks.length > 1 && rateTicks[1] - rateTicks[0] < 0.01 ? 1 : 0;
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${xs[i].toFixed(1)},${y(p.npv).toFixed(1)}`).join('');
+  const unplotted = [result.newtonRaphson, result.brent].filter(method => !markers.some(m => m.label === method.method));
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-auto"
+        role="img"
+        onMouseMove={(e) => setHovered(nearestIndex(xs, pointerX(e, width)))}
+        onMouseLeave={() => setHovered(null)}
+      >
+        {ticks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={width - PADDING.right} y1={y(tick)} y2={y(tick)} className={tick === 0 ? 'stroke-slate-400' : 'stroke-slate-200'} />
+            <text x={PADDING.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[11px]">
+              {formatMoney(tick)}
+            </text>
+          </g>
+        ))}
+        {rateTicks.map(tick => (
+          <text key={tick} x={x(tick)} y={height - 10} textAnchor="middle" className="fill-slate-500 text-[11px]">
+            {formatRate(tick, rateDigits)}
+          </text>
+        ))}
+        <path d={line} fill="none" strokeWidth={2} className="stroke-slate-700" />
+        {markers.map((marker, i) => (
+          <g key={`${marker.kind}-${marker.rate}`} className={MARKER_CLASSES[marker.kind]}>
+            <line x1={x(marker.rate)} x2={x(marker.rate)} y1={PADDING.top} y2={height - PADDING.bottom} strokeDasharray="4 4" fill="none" />
+            {/* Newton-Raphson and Brent often land on the same rate, so their circles differ in size */}
+            <circle cx={x(marker.rate)} cy={y(marker.npv)} r={i === 0 ? 6 : 4} fillOpacity={i === 0 ? 0.35 : 1}>
+              <title>{`${marker.label}: ${formatRate(marker.rate, 4)}, NPV ${formatCurrency(marker.npv)}`}</title>
+            </circle>
+          </g>
+        ))}
+        {hovered !== null && (
+          <g>
+            <line x1={xs[hovered]} x2={xs[hovered]} y1={PADDING.top} y2={height - PADDING.bottom} className="stroke-slate-300" />
+            <circle cx={xs[hovered]} cy={y(points[hovered].npv)} r={3} className="fill-slate-700" />
+          </g>
+        )}
+      </svg>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600 mt-1">
+        {hovered !== null ? (
+          <span>
+            <span className="font-medium text-slate-700">Rate {formatRate(points[hovered].rate, 2)}</span>: NPV {formatCurrency(points[hovered].npv)}
+          </span>
+        ) : (
+          <>
+            {markers.map(marker => (
+              <span key={`${marker.kind}-${marker.rate}`} className="flex items-center gap-1">
+                <span className={`w-2 h-2 rounded-full ${MARKER_SWATCHES[marker.kind]}`} />
+                {marker.label} {formatRate(marker.rate, 4)}
+                {!marker.converged && <span className="text-amber-700">(not converged, NPV {formatMoney(marker.npv)})</span>}
+              </span>
+            ))}
+            {unplotted.map(method => (
+              <span key={method.method} className="text-amber-700">
+                {method.method} did not reach a usable rate
+              </span>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * J-curve of cumulative net cash flow and the NPV-vs-rate profile for a result. The NPV profile
+ * explains a Method Comparison difference: each method's rate is marked on the curve, so two
+ * zero crossings, or a method stopping short of one, are visible at a glance.
+ */
+export function CashFlowCharts({ cashFlows, result, compact = false }: CashFlowChartsProps) {
+  const jCurve = useMemo(() => buildJCurve(cashFlows), [cashFlows]);
+  const profile = useMemo(() => buildNPVProfile(cashFlows, result), [cashFlows, result]);
+  const size = compact ? { width: 360, height: 220 } : { width: 560, height: 260 };
+
+  return (
+    <div className={compact ? 'space-y-3' : 'grid grid-cols-1 lg:grid-cols-2 gap-4'}>
+      <div className="bg-white p-4 rounded-lg shadow-sm">
+        <h4 className="text-sm font-semibold text-slate-700 mb-2">Cumulative Net Cash Flow</h4>
+        <JCurveChart points={jCurve} {...size} />
+      </div>
+      <div className="bg-white p-4 rounded-lg shadow-sm">
+        <h4 className="text-sm font-semibold text-slate-700 mb-2">NPV Profile</h4>
+        <NPVProfileChart profile={profile} result={result} {...size} />
+      </div>
+    </div>
+  );
+}
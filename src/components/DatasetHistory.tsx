@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState } from 'react';
+import { History, X, Loader2, RotateCcw } from 'lucide-react';
+import { DatasetContent, DatasetSummary, DatasetVersion, listDatasetVersions, restoreDatasetVersion } from '../lib/datasets';
+import { ItemDiff, diffDatasets, isEmptyDiff } from '../utils/datasetDiff';
+import { Period } from '../utils/periodResults';
+
+interface PeriodValues {
+  periods: Period[];
+}
+
+interface DatasetHistoryProps {
+  dataset: DatasetSummary;
+  // Workspace viewers can browse history but not restore
+  readOnly?: boolean;
+  onRestore: (content: DatasetContent<PeriodValues>) => void;
+  onClose: () => void;
+}
+
+// Enough to read through; the first version of a large dataset would otherwise render every flow
+const MAX_DIFF_ROWS = 200;
+
+function DiffSection<T>({ title, diff, describe }: { title: string; diff: ItemDiff<T>; describe: (item: T) => string }) {
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    return null;
+  }
+
+  const hidden = [diff.added, diff.removed, diff.changed].reduce((sum, list) => sum + Math.max(0, list.length - MAX_DIFF_ROWS), 0);
+
+  return (
+    <div>
+      <h5 className="text-sm font-semibold text-slate-700 mb-2">
+        {title}
+        <span className="ml-2 text-xs font-normal text-slate-500">
+          {diff.added.length} added · {diff.removed.length} removed · {diff.changed.length} changed
+        </span>
+      </h5>
+      <div className="space-y-1 text-xs font-mono">
+        {diff.added.slice(0, MAX_DIFF_ROWS).map((item, i) => (
+          <div key={`a${i}`} className="px-2 py-1 bg-green-50 text-green-800 rounded">+ {describe(item)}</div>
+        ))}
+        {diff.removed.slice(0, MAX_DIFF_ROWS).map((item, i) => (
+          <div key={`r${i}`} className="px-2 py-1 bg-red-50 text-red-800 rounded">− {describe(item)}</div>
+        ))}
+        {diff.changed.slice(0, MAX_DIFF_ROWS).map((change, i) => (
+          <div key={`c${i}`} className="px-2 py-1 bg-amber-50 text-amber-900 rounded">
+            ~ {describe(change.after)}
+            {change.changes.map(c => (
+              <div key={c.field} className="pl-4 text-amber-800">
+                {c.field}: {c.before || '(blank)'} → {c.after || '(blank)'}
+              </div>
+            ))}
+          </div>
+        ))}
+        {hidden > 0 && <p className="px-2 text-slate-500 font-sans">…and {hidden} more</p>}
+      </div>
+    </div>
+  );
+}
+
+export function DatasetHistory({ dataset, readOnly, onRestore, onClose }: DatasetHistoryProps) {
+  const [versions, setVersions] = useState<DatasetVersion<PeriodValues>[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const loaded = await listDatasetVersions<PeriodValues>(dataset.id);
+        setVersions(loaded);
+        setSelected(loaded[0]?.version ?? null);
+        setCompareTo(loaded[1]?.version ?? null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load versions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [dataset.id]);
+
+  const version = versions.find(v => v.version === selected);
+  const baseline = versions.find(v => v.version === compareTo);
+  const diff = useMemo(
+    () => (version ? diffDatasets(baseline || { flows: [], periodValues: null }, version) : null),
+    [version, baseline]
+  );
+
+  const selectVersion = (v: number) => {
+    setSelected(v);
+    // Default to showing what this version changed relative to the one before it
+    const previous = versions.find(other => other.version < v);
+    setCompareTo(previous?.version ?? null);
+  };
+
+  const handleRestore = async () => {
+    if (!version) return;
+    if (!confirm(`Restore version ${version.version}? It will be saved as a new version and loaded into the calculator.`)) return;
+
+    setRestoring(true);
+    setError('');
+    try {
+      await restoreDatasetVersion(dataset.id, version);
+      onRestore({ flows: version.flows, periodValues: version.periodValues });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl p-6 max-w-4xl w-full max-h-[85vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-600" />
+            History: {dataset.name}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-slate-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading versions...
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">No versions recorded for this dataset.</div>
+        ) : (
+          <div className="flex-1 flex gap-4 overflow-hidden">
+            <div className="w-56 flex-shrink-0 overflow-y-auto space-y-1">
+              {versions.map(v => (
+                <button
+                  key={v.id}
+                  onClick={() => selectVersion(v.version)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    v.version === selected ? 'border-blue-400 bg-blue-50' : 'border-slate-200 hover:border-blue-300'
+                  }`}
+                >
+                  <div className="flex justify-between items-baseline">
+                    <span className="font-semibold text-slate-800">v{v.version}</span>
+                    <span className="text-xs text-slate-500">{v.flows.length} flows</span>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">{new Date(v.created_at).toLocaleString()}</p>
+                  {v.note && <p className="text-xs text-slate-600 mt-1">{v.note}</p>}
+                </button>
+              ))}
+            </div>
+
+            {version && diff && (
+            <div className="flex-1 overflow-y-auto">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2 text-sm text-slate-700">
+                  <span>Changes in v{version.version} since</span>
+                  <select
+                    value={compareTo ?? ''}
+                    onChange={(e) => setCompareTo(e.target.value ? Number(e.target.value) : null)}
+                    className="px-2 py-1 border border-slate-300 rounded-lg text-sm"
+                  >
+                    <option value="">(empty)</option>
+                    {versions.filter(v => v.version !== version.version).map(v => (
+                      <option key={v.id} value={v.version}>v{v.version}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  onClick={handleRestore}
+                  disabled={readOnly || restoring || version.version === versions[0].version}
+                  title={readOnly ? 'Viewers cannot restore versions' : version.version === versions[0].version ? 'This is the current version' : undefined}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {restoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                  Restore v{version.version}
+                </button>
+              </div>
+
+              {isEmptyDiff(diff) ? (
+                <p className="text-sm text-slate-500">No differences.</p>
+              ) : (
+                <div className="space-y-4">
+                  <DiffSection
+                    title="Cash Flows"
+                    diff={diff.flows}
+                    describe={f => `${f.date}  ${f.amount}${f.description ? `  ${f.description}` : ''}`}
+                  />
+                  <DiffSection
+                    title="Periods"
+                    diff={diff.periods}
+                    describe={p => `${p.label}  ${p.startDate} → ${p.endDate}`}
+                  />
+                </div>
+              )}
+            </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
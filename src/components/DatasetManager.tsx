@@ -1,18 +1,18 @@
 import { useState, useEffect } from 'react';
-import { Save, FolderOpen, Trash2, X } from 'lucide-react';
-
-interface Dataset {
-  id: string;
-  name: string;
-  description: string;
-  created_at: string;
-  updated_at: string;
-}
+import { Save, FolderOpen, Trash2, X, Loader2, History, Share2, Users } from 'lucide-react';
+import { AnnualizationPolicy } from '../utils/xirr';
+import { useAuth } from '../lib/AuthContext';
+import { DatasetSummary, deleteDataset, fetchDataset, findDatasetByName, listDatasets, saveDataset, saveDatasetVersion } from '../lib/datasets';
+import { Workspace, canEdit, listWorkspaces } from '../lib/workspaces';
+import { DatasetHistory } from './DatasetHistory';
+import { ShareDatasetDialog } from './ShareDatasetDialog';
+import { WorkspaceManager } from './WorkspaceManager';
 
 interface CashFlowData {
   date: string;
   amount: string;
   description: string;
+  marketValue?: string;
 }
 
 interface Period {
@@ -22,6 +22,8 @@ interface Period {
   endDate: string;
   startValue: string;
   endValue: string;
+  annualized?: AnnualizationPolicy;
+  benchmark?: string;
 }
 
 interface PeriodValues {
@@ -35,126 +37,186 @@ interface DatasetManagerProps {
   isMultiPeriod?: boolean;
 }
 
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+const ACTIVE_WORKSPACE_KEY = 'irr_active_workspace';
+
 export function DatasetManager({ onLoad, currentFlows, periodValues, isMultiPeriod }: DatasetManagerProps) {
+  const { user } = useAuth();
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [showLoadDialog, setShowLoadDialog] = useState(false);
-  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
   const [saveName, setSaveName] = useState('');
   const [saveDescription, setSaveDescription] = useState('');
   const [loading, setLoading] = useState(false);
+  const [listLoading, setListLoading] = useState(false);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [historyDataset, setHistoryDataset] = useState<DatasetSummary | null>(null);
+  const [shareDataset, setShareDataset] = useState<DatasetSummary | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(() => localStorage.getItem(ACTIVE_WORKSPACE_KEY));
+  const [showWorkspaceManager, setShowWorkspaceManager] = useState(false);
+  const [workspacesVersion, setWorkspacesVersion] = useState(0);
   const [error, setError] = useState('');
 
-  const loadDatasets = () => {
-    const stored = localStorage.getItem('irr_datasets');
-    if (stored) {
+  const workspace = workspaces.find(w => w.id === workspaceId) || null;
+  const editable = canEdit(workspace?.role ?? null);
+
+  useEffect(() => {
+    if (!user) {
+      setWorkspaces([]);
+      return;
+    }
+
+    listWorkspaces(user.id)
+      .then(loaded => {
+        setWorkspaces(loaded);
+        // Fall back to personal datasets if the saved workspace is gone or access was revoked
+        setWorkspaceId(current => (current && loaded.some(w => w.id === current) ? current : null));
+      })
+      .catch(err => setError(errorMessage(err, 'Failed to load workspaces')));
+  }, [user, workspacesVersion]);
+
+  useEffect(() => {
+    if (workspaceId) {
+      localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId);
+    } else {
+      localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    if (!showLoadDialog || !user) return;
+
+    const loadDatasets = async () => {
+      setListLoading(true);
+      setError('');
       try {
-        const data = JSON.parse(stored);
-        setDatasets(data);
+        setDatasets(await listDatasets(workspaceId));
       } catch (err) {
-        setError('Failed to load datasets');
+        setError(errorMessage(err, 'Failed to load datasets'));
+      } finally {
+        setListLoading(false);
       }
-    }
+    };
+
+    loadDatasets();
+  }, [showLoadDialog, user, workspaceId]);
+
+  const openDialog = (open: (value: boolean) => void) => {
+    setError('');
+    open(true);
   };
 
-  useEffect(() => {
-    if (showLoadDialog) {
-      loadDatasets();
-    }
-  }, [showLoadDialog]);
+  // The session can expire while a dialog is open
+  const notice = error || (user ? '' : 'Your session has ended. Sign in again to save and load datasets.');
 
-  const handleSave = () => {
-    if (!saveName.trim()) return;
+  const handleSave = async () => {
+    if (!saveName.trim() || !user || !editable) return;
 
     setLoading(true);
     setError('');
 
     try {
-      const stored = localStorage.getItem('irr_datasets');
-      const existingDatasets = stored ? JSON.parse(stored) : [];
-
-      const newDataset: Dataset = {
-        id: Date.now().toString(),
-        name: saveName.trim(),
-        description: saveDescription.trim(),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-
-      const datasetWithFlows = {
-        ...newDataset,
+      const name = saveName.trim();
+      const content = {
         flows: currentFlows.filter(f => f.date && f.amount),
-        period_values: isMultiPeriod && periodValues ? periodValues : null,
+        periodValues: isMultiPeriod && periodValues ? periodValues : null
       };
 
-      const updatedDatasets = [datasetWithFlows, ...existingDatasets];
-      localStorage.setItem('irr_datasets', JSON.stringify(updatedDatasets));
+      // Saving under an existing name records a new version of that dataset rather than a duplicate
+      const existing = await findDatasetByName(name, workspaceId);
+      if (existing) {
+        if (!confirm(`A dataset named "${name}" already exists. Save as a new version of it?`)) return;
+        const version = await saveDatasetVersion(existing.id, content, 'Saved', saveDescription.trim() || undefined);
+        alert(`Dataset saved as version ${version}!`);
+      } else {
+        await saveDataset(user.id, name, saveDescription.trim(), content, { workspaceId });
+        alert('Dataset saved successfully!');
+      }
 
       setSaveName('');
       setSaveDescription('');
       setShowSaveDialog(false);
-      alert('Dataset saved successfully!');
     } catch (err) {
-      setError('Failed to save dataset');
+      setError(errorMessage(err, 'Failed to save dataset'));
     } finally {
       setLoading(false);
     }
   };
 
-  const handleLoad = (datasetId: string) => {
-    setLoading(true);
+  const handleLoad = async (datasetId: string) => {
+    setLoadingId(datasetId);
     setError('');
 
     try {
-      const stored = localStorage.getItem('irr_datasets');
-      if (!stored) throw new Error('No datasets found');
-
-      const datasets = JSON.parse(stored);
-      const dataset = datasets.find((d: any) => d.id === datasetId);
-
-      if (!dataset) throw new Error('Dataset not found');
-
-      const flows: CashFlowData[] = dataset.flows || [];
-      const loadedPeriodValues = dataset.period_values as PeriodValues | null;
-
-      onLoad(flows, loadedPeriodValues || undefined);
+      const dataset = await fetchDataset<PeriodValues>(datasetId);
+      onLoad(dataset.flows, dataset.periodValues || undefined);
       setShowLoadDialog(false);
     } catch (err) {
-      setError('Failed to load dataset');
+      setError(errorMessage(err, 'Failed to load dataset'));
     } finally {
-      setLoading(false);
+      setLoadingId(null);
     }
   };
 
-  const handleDelete = (datasetId: string) => {
+  const handleDelete = async (datasetId: string) => {
     if (!confirm('Are you sure you want to delete this dataset?')) return;
 
-    try {
-      const stored = localStorage.getItem('irr_datasets');
-      if (!stored) return;
-
-      const datasets = JSON.parse(stored);
-      const updatedDatasets = datasets.filter((d: any) => d.id !== datasetId);
-      localStorage.setItem('irr_datasets', JSON.stringify(updatedDatasets));
+    setDeletingId(datasetId);
+    setError('');
 
-      loadDatasets();
+    try {
+      await deleteDataset(datasetId);
+      setDatasets(datasets.filter(d => d.id !== datasetId));
     } catch (err) {
-      setError('Failed to delete dataset');
+      setError(errorMessage(err, 'Failed to delete dataset'));
+    } finally {
+      setDeletingId(null);
     }
   };
 
   return (
     <div className="flex gap-3">
+      {user && (
+        <div className="flex items-center gap-1">
+          <select
+            value={workspaceId ?? ''}
+            onChange={(e) => setWorkspaceId(e.target.value || null)}
+            title="Workspace to save to and load from"
+            className="px-2 py-2 bg-white border border-slate-300 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Personal</option>
+            {workspaces.map(w => (
+              <option key={w.id} value={w.id}>{w.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowWorkspaceManager(true)}
+            title="Manage workspaces and members"
+            className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <Users className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       <button
-        onClick={() => setShowSaveDialog(true)}
-        className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
+        onClick={() => openDialog(setShowSaveDialog)}
+        disabled={!user || !editable}
+        title={!user ? 'Sign in to save datasets to the cloud' : !editable ? `Viewers cannot save to ${workspace?.name}` : undefined}
+        className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
       >
         <Save className="w-4 h-4" />
         Save Data
       </button>
 
       <button
-        onClick={() => setShowLoadDialog(true)}
-        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+        onClick={() => openDialog(setShowLoadDialog)}
+        disabled={!user}
+        title={user ? undefined : 'Sign in to load datasets from the cloud'}
+        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
       >
         <FolderOpen className="w-4 h-4" />
         Load Data
@@ -171,6 +233,11 @@ export function DatasetManager({ onLoad, currentFlows, periodValues, isMultiPeri
             </div>
 
             <div className="space-y-4">
+              <p className="text-sm text-slate-600">
+                Saving to <span className="font-medium">{workspace ? workspace.name : 'Personal'}</span>
+                {workspace && ', visible to everyone in the workspace'}
+              </p>
+
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">Dataset Name</label>
                 <input
@@ -193,16 +260,16 @@ export function DatasetManager({ onLoad, currentFlows, periodValues, isMultiPeri
                 />
               </div>
 
-              {error && (
+              {notice && (
                 <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
-                  {error}
+                  {notice}
                 </div>
               )}
 
               <div className="flex gap-3">
                 <button
                   onClick={handleSave}
-                  disabled={loading || !saveName.trim()}
+                  disabled={loading || !saveName.trim() || !user}
                   className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {loading ? 'Saving...' : 'Save'}
@@ -223,20 +290,28 @@ export function DatasetManager({ onLoad, currentFlows, periodValues, isMultiPeri
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-xl p-6 max-w-2xl w-full max-h-[80vh] overflow-hidden flex flex-col">
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-xl font-bold text-slate-800">Load Dataset</h3>
+              <h3 className="text-xl font-bold text-slate-800">
+                Load Dataset
+                <span className="ml-2 text-sm font-normal text-slate-500">{workspace ? `${workspace.name} · ${workspace.role}` : 'Personal'}</span>
+              </h3>
               <button onClick={() => setShowLoadDialog(false)} className="text-slate-400 hover:text-slate-600">
                 <X className="w-5 h-5" />
               </button>
             </div>
 
-            {error && (
+            {notice && (
               <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
-                {error}
+                {notice}
               </div>
             )}
 
             <div className="flex-1 overflow-y-auto">
-              {datasets.length === 0 ? (
+              {listLoading ? (
+                <div className="flex items-center justify-center gap-2 py-8 text-slate-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Loading datasets...
+                </div>
+              ) : !user ? null : datasets.length === 0 ? (
                 <div className="text-center py-8 text-slate-500">
                   No saved datasets yet. Save your current data to get started!
                 </div>
@@ -260,16 +335,39 @@ export function DatasetManager({ onLoad, currentFlows, periodValues, isMultiPeri
                         <div className="flex gap-2 ml-4">
                           <button
                             onClick={() => handleLoad(dataset.id)}
-                            disabled={loading}
+                            disabled={loadingId !== null || deletingId !== null}
                             className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
                           >
-                            Load
+                            {loadingId === dataset.id ? 'Loading...' : 'Load'}
+                          </button>
+                          <button
+                            onClick={() => setHistoryDataset(dataset)}
+                            disabled={loadingId !== null || deletingId !== null}
+                            title="Version history"
+                            className="p-1 text-slate-600 hover:bg-slate-100 rounded transition-colors disabled:opacity-50"
+                          >
+                            <History className="w-4 h-4" />
                           </button>
+                          {editable && (dataset.user_id === user?.id || workspace?.role === 'owner') && (
+                            <button
+                              onClick={() => setShareDataset(dataset)}
+                              disabled={loadingId !== null || deletingId !== null}
+                              title="Share with a workspace"
+                              className="p-1 text-slate-600 hover:bg-slate-100 rounded transition-colors disabled:opacity-50"
+                            >
+                              <Share2 className="w-4 h-4" />
+                            </button>
+                          )}
                           <button
                             onClick={() => handleDelete(dataset.id)}
-                            className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                            disabled={!editable || loadingId !== null || deletingId !== null}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
                           >
-                            <Trash2 className="w-4 h-4" />
+                            {deletingId === dataset.id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="w-4 h-4" />
+                            )}
                           </button>
                         </div>
                       </div>
@@ -281,6 +379,46 @@ export function DatasetManager({ onLoad, currentFlows, periodValues, isMultiPeri
           </div>
         </div>
       )}
+
+      {historyDataset && (
+        <DatasetHistory
+          dataset={historyDataset}
+          readOnly={!editable}
+          onRestore={(content) => {
+            onLoad(content.flows, content.periodValues || undefined);
+            setHistoryDataset(null);
+            setShowLoadDialog(false);
+          }}
+          onClose={() => setHistoryDataset(null)}
+        />
+      )}
+
+      {shareDataset && (
+        <ShareDatasetDialog
+          dataset={shareDataset}
+          workspaces={workspaces}
+          onShared={(target) => {
+            if (target !== workspaceId) {
+              setDatasets(datasets.filter(d => d.id !== shareDataset.id));
+            }
+            setShareDataset(null);
+          }}
+          onClose={() => setShareDataset(null)}
+        />
+      )}
+
+      {showWorkspaceManager && user && (
+        <WorkspaceManager
+          workspaces={workspaces}
+          activeWorkspaceId={workspaceId}
+          currentUserId={user.id}
+          onWorkspacesChanged={(selectId) => {
+            if (selectId !== undefined) setWorkspaceId(selectId);
+            setWorkspacesVersion(v => v + 1);
+          }}
+          onClose={() => setShowWorkspaceManager(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,357 @@
+import { useMemo, useState } from 'react';
+import { FileSpreadsheet, X, AlertTriangle } from 'lucide-react';
+import {
+  ColumnMapping,
+  DELIMITERS,
+  Delimiter,
+  ImportedFlow,
+  columnCount,
+  detectDelimiter,
+  detectHeader,
+  detectRecordFormats,
+  guessColumnMapping,
+  mapFlowRecords,
+  mapPeriodRecords,
+  readAllRecords,
+  splitSections,
+  typicalColumnCount
+} from '../utils/csvImport';
+import { Workbook, formatRange, parseRange, sheetRecords } from '../utils/xlsx';
+import {
+  DATE_FORMATS,
+  DateFormat,
+  NUMBER_FORMATS,
+  NumberFormat,
+  ParseFormats,
+  ambiguityWarnings,
+  dateFormatLabel,
+  numberFormatLabel
+} from '../utils/localeFormats';
+import { Period } from '../utils/periodResults';
+
+export type ImportSource =
+  | { kind: 'text'; name: string; text: string }
+  | { kind: 'workbook'; name: string; workbook: Workbook };
+
+interface ImportWizardProps {
+  source: ImportSource;
+  // Multi-period mode also imports the template's "Period Definitions:" section
+  includePeriods: boolean;
+  onImport: (flows: ImportedFlow[], periods: Period[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 50;
+
+const MAPPED_FIELDS: { value: keyof ColumnMapping; label: string; optional: boolean }[] = [
+  { value: 'date', label: 'Date', optional: false },
+  { value: 'amount', label: 'Amount', optional: false },
+  { value: 'description', label: 'Description', optional: true },
+  { value: 'marketValue', label: 'Market Value', optional: true }
+];
+
+export function ImportWizard({ source, includePeriods, onImport, onClose }: ImportWizardProps) {
+  const workbook = source.kind === 'workbook' ? source.workbook : null;
+  const [delimiter, setDelimiter] = useState<Delimiter>(() => (source.kind === 'text' ? detectDelimiter(source.text) : ','));
+  // Start on the first sheet with data; the range defaults to everything on it
+  const [sheetIndex, setSheetIndex] = useState(() => Math.max(0, workbook?.sheets.findIndex(s => s.range) ?? 0));
+  const [rangeText, setRangeText] = useState('');
+  const [headerOverride, setHeaderOverride] = useState<boolean | null>(null);
+  const [mappingOverride, setMappingOverride] = useState<ColumnMapping | null>(null);
+  const [dateFormatOverride, setDateFormatOverride] = useState<DateFormat | null>(null);
+  const [numberFormatOverride, setNumberFormatOverride] = useState<NumberFormat | null>(null);
+
+  const sheet = workbook?.sheets[sheetIndex] ?? null;
+  const range = useMemo(() => (rangeText.trim() ? parseRange(rangeText) : sheet?.range ?? null), [sheet, rangeText]);
+  const rangeError = sheet !== null && rangeText.trim() !== '' && range === null;
+
+  const records = useMemo(() => {
+    if (source.kind === 'text') return readAllRecords(source.text, delimiter);
+    return sheet && range ? sheetRecords(sheet, range) : [];
+  }, [source, delimiter, sheet, range]);
+
+  const sections = useMemo(() => splitSections(records), [records]);
+
+  const hasHeader = headerOverride ?? detectHeader(sections.flows);
+  const { header, dataRecords } = useMemo(
+    () => ({
+      header: hasHeader ? sections.flows[0]?.fields ?? null : null,
+      dataRecords: hasHeader ? sections.flows.slice(1) : sections.flows
+    }),
+    [sections, hasHeader]
+  );
+  const columns = Math.max(columnCount(dataRecords), header?.length ?? 0);
+
+  const guessedMapping = useMemo(() => guessColumnMapping(header, dataRecords), [header, dataRecords]);
+  const mapping = mappingOverride ?? guessedMapping;
+  const sameColumn = mapping.date === mapping.amount;
+
+  // Workbook date cells arrive as ISO dates, which read the same in every format; a date column
+  // without a date number format is serial numbers, which detection picks up as Excel serials
+  const detected = useMemo(
+    () => detectRecordFormats(dataRecords, mapping, includePeriods ? sections.periods : null, workbook?.date1904),
+    [dataRecords, mapping, includePeriods, sections, workbook]
+  );
+  const formats: ParseFormats = useMemo(
+    () => ({
+      date: dateFormatOverride ?? detected.date.format,
+      number: numberFormatOverride ?? detected.number.format,
+      date1904: workbook?.date1904
+    }),
+    [dateFormatOverride, numberFormatOverride, detected, workbook]
+  );
+  const warnings = ambiguityWarnings(
+    dateFormatOverride ? undefined : detected.date,
+    numberFormatOverride ? undefined : detected.number
+  );
+
+  const rows = useMemo(
+    () => mapFlowRecords(dataRecords, mapping, header?.length ?? typicalColumnCount(dataRecords), formats),
+    [dataRecords, mapping, header, formats]
+  );
+  const validRows = rows.filter(r => !r.error);
+  const errorCount = rows.length - validRows.length;
+
+  const periodRows = useMemo(
+    () => (includePeriods && sections.periods ? mapPeriodRecords(sections.periods, formats) : []),
+    [includePeriods, sections, formats]
+  );
+  const periods = periodRows.flatMap(r => (r.period ? [r.period] : []));
+  const periodErrors = periodRows.filter(r => r.error);
+
+  const columnLabel = (index: number) => header?.[index] ? `${header[index]} (column ${index + 1})` : `Column ${index + 1}`;
+
+  // A different delimiter or header row changes what the columns are, so start from a fresh guess
+  const changeDelimiter = (next: Delimiter) => {
+    setDelimiter(next);
+    setHeaderOverride(null);
+    setMappingOverride(null);
+  };
+
+  const changeSheet = (next: number) => {
+    setSheetIndex(next);
+    setRangeText('');
+    setHeaderOverride(null);
+    setMappingOverride(null);
+  };
+
+  const changeRange = (next: string) => {
+    setRangeText(next);
+    setHeaderOverride(null);
+    setMappingOverride(null);
+  };
+
+  const changeHeader = (next: boolean) => {
+    setHeaderOverride(next);
+    setMappingOverride(null);
+  };
+
+  const changeMapping = (field: keyof ColumnMapping, value: string) => {
+    setMappingOverride({ ...mapping, [field]: value === '' ? null : Number(value) });
+  };
+
+  const lineLabel = workbook ? 'Row' : 'Line';
+  const canImport = !rangeError && !sameColumn && (validRows.length > 0 || periods.length > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl p-6 max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-blue-600" />
+            Import {source.name}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          {workbook ? (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Sheet</label>
+                <select
+                  value={sheetIndex}
+                  onChange={(e) => changeSheet(Number(e.target.value))}
+                  className="px-3 py-2 border border-slate-300 rounded-lg text-sm max-w-[12rem]"
+                >
+                  {workbook.sheets.map((s, i) => (
+                    <option key={i} value={i}>{s.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Range</label>
+                <input
+                  type="text"
+                  value={rangeText}
+                  onChange={(e) => changeRange(e.target.value)}
+                  placeholder={sheet?.range ? formatRange(sheet.range) : 'Empty sheet'}
+                  className={`px-3 py-2 border rounded-lg text-sm w-28 font-mono ${rangeError ? 'border-red-400' : 'border-slate-300'}`}
+                />
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Delimiter</label>
+              <select
+                value={delimiter}
+                onChange={(e) => changeDelimiter(e.target.value as Delimiter)}
+                className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              >
+                {DELIMITERS.map(d => (
+                  <option key={d.label} value={d.value}>{d.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {MAPPED_FIELDS.map(field => (
+            <div key={field.value}>
+              <label className="block text-xs font-medium text-slate-600 mb-1">{field.label} Column</label>
+              <select
+                value={mapping[field.value] ?? ''}
+                onChange={(e) => changeMapping(field.value, e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg text-sm max-w-[12rem]"
+              >
+                {field.optional && <option value="">None</option>}
+                {Array.from({ length: columns }, (_, i) => (
+                  <option key={i} value={i}>{columnLabel(i)}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Date Format</label>
+            <select
+              value={dateFormatOverride ?? ''}
+              onChange={(e) => setDateFormatOverride((e.target.value || null) as DateFormat | null)}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            >
+              <option value="">Auto ({dateFormatLabel(detected.date.format)})</option>
+              {DATE_FORMATS.map(f => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Number Format</label>
+            <select
+              value={numberFormatOverride ?? ''}
+              onChange={(e) => setNumberFormatOverride((e.target.value || null) as NumberFormat | null)}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            >
+              <option value="">Auto ({numberFormatLabel(detected.number.format)})</option>
+              {NUMBER_FORMATS.map(f => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700 pb-2">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={(e) => changeHeader(e.target.checked)}
+              className="rounded border-slate-300"
+            />
+            First row is a header
+          </label>
+        </div>
+
+        {rangeError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            Enter the range as cell references, e.g. A1:D20.
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 space-y-1">
+            {warnings.map(warning => (
+              <p key={warning} className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>{warning} Choose the format above if that is wrong.</span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {sameColumn && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            Date and amount must come from different columns.
+          </div>
+        )}
+
+        {includePeriods && sections.periods && (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+            {periods.length} period{periods.length === 1 ? '' : 's'} found in "Period Definitions" will replace the current periods.
+            {periodErrors.map(r => (
+              <p key={r.line} className="text-xs text-red-700 mt-1">{lineLabel} {r.line}: {r.error}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto border border-slate-200 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr className="text-left text-xs text-slate-600">
+                <th className="px-3 py-2 font-medium">{lineLabel}</th>
+                <th className="px-3 py-2 font-medium">Date</th>
+                <th className="px-3 py-2 font-medium text-right">Amount</th>
+                <th className="px-3 py-2 font-medium">Description</th>
+                {mapping.marketValue !== null && <th className="px-3 py-2 font-medium text-right">Market Value</th>}
+                <th className="px-3 py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.slice(0, PREVIEW_ROWS).map(row => (
+                <tr key={row.line} className={row.error ? 'bg-red-50' : ''}>
+                  <td className="px-3 py-1.5 text-slate-500">{row.line}</td>
+                  <td className="px-3 py-1.5 font-mono">{row.date}</td>
+                  <td className="px-3 py-1.5 font-mono text-right">{row.amount}</td>
+                  <td className="px-3 py-1.5 text-slate-700 truncate max-w-[14rem]">{row.description}</td>
+                  {mapping.marketValue !== null && <td className="px-3 py-1.5 font-mono text-right">{row.marketValue}</td>}
+                  <td className="px-3 py-1.5 text-xs">
+                    {row.error ? (
+                      <span className="text-red-700 flex items-start gap-1">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        {row.error}
+                      </span>
+                    ) : (
+                      <span className="text-green-700">OK</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length === 0 && (
+            <p className="p-4 text-sm text-slate-500 text-center">No cash flow rows found.</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-4 mt-4">
+          <p className="text-sm text-slate-600">
+            {validRows.length} of {rows.length} row{rows.length === 1 ? '' : 's'} ready
+            {errorCount > 0 && <span className="text-red-700">; {errorCount} with errors will be skipped</span>}
+            {rows.length > PREVIEW_ROWS && <span className="text-slate-400"> (showing the first {PREVIEW_ROWS})</span>}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onImport(validRows, periods)}
+              disabled={!canImport}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Import {validRows.length} Row{validRows.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
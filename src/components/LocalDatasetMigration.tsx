@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from 'react';
+import { UploadCloud, X, AlertTriangle, Loader2 } from 'lucide-react';
+import { useAuth } from '../lib/AuthContext';
+import { listDatasets } from '../lib/datasets';
+import { MigrationCandidate, MigrationOutcome, findMigrationCandidates, hasUnmigratedLocalDatasets, migrateLocalDatasets } from '../lib/localDatasets';
+
+interface PeriodValues {
+  periods?: unknown[];
+}
+
+export function LocalDatasetMigration() {
+  const { user } = useAuth();
+  const [candidates, setCandidates] = useState<MigrationCandidate<PeriodValues>[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [show, setShow] = useState(false);
+  const [migrating, setMigrating] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [outcome, setOutcome] = useState<MigrationOutcome | null>(null);
+  const [error, setError] = useState('');
+  // Offer the migration once per sign-in, not on every token refresh
+  const offeredTo = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      offeredTo.current = null;
+      setShow(false);
+      return;
+    }
+    if (offeredTo.current === user.id || !hasUnmigratedLocalDatasets(user.id)) return;
+    offeredTo.current = user.id;
+
+    const prepare = async () => {
+      try {
+        const found = findMigrationCandidates<PeriodValues>(user.id, await listDatasets(null));
+        setCandidates(found);
+        setSelected(new Set(found.filter(c => !c.conflict).map(c => c.dataset.id)));
+        setOutcome(null);
+        setError('');
+        setShow(found.length > 0);
+      } catch (err) {
+        // Without the cloud list conflicts can't be reported, so try again on the next sign-in
+        offeredTo.current = null;
+        console.error('Could not check local datasets for migration', err);
+      }
+    };
+
+    prepare();
+  }, [user]);
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const handleMigrate = async () => {
+    if (!user) return;
+
+    setMigrating(true);
+    setError('');
+    setProgress({ done: 0, total: candidates.length });
+
+    try {
+      setOutcome(await migrateLocalDatasets(user.id, candidates, selected, (done, total) => setProgress({ done, total })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Migration failed');
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  if (!show) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl p-6 max-w-2xl w-full max-h-[80vh] overflow-hidden flex flex-col">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <UploadCloud className="w-5 h-5 text-blue-600" />
+            Move Local Datasets to Your Account
+          </h3>
+          <button onClick={() => setShow(false)} disabled={migrating} className="text-slate-400 hover:text-slate-600 disabled:opacity-50">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!outcome ? (
+        <>
+          <p className="text-sm text-slate-600 mb-4">
+            This browser has {candidates.length} dataset{candidates.length === 1 ? '' : 's'} saved before cloud storage. Checked
+            datasets are uploaded to your account; unchecked ones stay in this browser and won't be offered to you again.
+          </p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {candidates.map(({ dataset, flowCount, conflict }) => (
+              <label
+                key={dataset.id}
+                className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer ${conflict ? 'border-amber-300 bg-amber-50' : 'border-slate-200'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(dataset.id)}
+                  onChange={() => toggle(dataset.id)}
+                  disabled={migrating}
+                  className="mt-1 rounded border-slate-300"
+                />
+                <div className="flex-1">
+                  <h4 className="font-semibold text-slate-800">{dataset.name}</h4>
+                  {dataset.description && <p className="text-sm text-slate-600">{dataset.description}</p>}
+                  <p className="text-xs text-slate-500 mt-1">
+                    {flowCount} flow{flowCount === 1 ? '' : 's'}
+                    {dataset.period_values?.periods && ` · ${dataset.period_values.periods.length} periods`}
+                    {dataset.updated_at && ` · Updated ${new Date(dataset.updated_at).toLocaleDateString()}`}
+                  </p>
+                  {conflict && (
+                    <p className="text-xs text-amber-800 mt-1 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      A dataset named "{dataset.name}" already exists. Check to upload it anyway as a second copy.
+                    </p>
+                  )}
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={() => setShow(false)}
+              disabled={migrating}
+              className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors font-medium disabled:opacity-50"
+            >
+              Later
+            </button>
+            <button
+              onClick={handleMigrate}
+              disabled={migrating}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {migrating ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Migrating {progress.done}/{progress.total}...
+                </>
+              ) : (
+                `Migrate ${selected.size} Dataset${selected.size === 1 ? '' : 's'}`
+              )}
+            </button>
+          </div>
+        </>
+        ) : (
+        <>
+          <div className="flex-1 overflow-y-auto space-y-3 text-sm">
+            <p className="text-green-700">
+              Uploaded {outcome.uploaded.length} dataset{outcome.uploaded.length === 1 ? '' : 's'}.
+            </p>
+            {outcome.skipped.length > 0 && (
+              <p className="text-slate-600">Left in this browser: {outcome.skipped.join(', ')}</p>
+            )}
+            {outcome.failed.length > 0 && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 space-y-1">
+                <p className="font-medium">These will be offered again next time you sign in:</p>
+                {outcome.failed.map(f => (
+                  <p key={f.name}>{f.name}: {f.error}</p>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end mt-6">
+            <button
+              onClick={() => setShow(false)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              Done
+            </button>
+          </div>
+        </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import { useMemo } from 'react';
-import { TrendingUp, Calendar, AlertCircle, DollarSign, GitCompare, CheckCircle2, AlertTriangle } from 'lucide-react';
-import { CashFlow, calculateXIRR, filterCashFlowsByPeriod, XIRRResult } from '../utils/xirr';
+import { useMemo, useState } from 'react';
+import { TrendingUp, Calendar, AlertCircle, DollarSign, GitCompare, CheckCircle2, AlertTriangle, Activity } from 'lucide-react';
+import { CashFlow, DayCountConvention, ValuedCashFlow, calculateXIRR, filterCashFlowsByPeriod, XIRRMode, XIRRResult } from '../utils/xirr';
+import { ROLLING_STEP_OPTIONS, ROLLING_WINDOW_OPTIONS, calculateRollingXIRR } from '../utils/rolling';
+import { compareDates, formatCalendarDate } from '../utils/calendarDate';
+import { TimeSeriesChart } from './TimeSeriesChart';
 
 interface PeriodResult {
   period: string;
@@ -11,14 +14,24 @@ interface PeriodResult {
 }
 
 interface MultiPeriodAnalysisProps {
-  cashFlows: CashFlow[];
+  cashFlows: ValuedCashFlow[];
+  dayCount: DayCountConvention;
+  xirrMode: XIRRMode;
 }
 
-export function MultiPeriodAnalysis({ cashFlows }: MultiPeriodAnalysisProps) {
+type AnalysisMode = 'trailing' | 'rolling';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+export function MultiPeriodAnalysis({ cashFlows, dayCount, xirrMode }: MultiPeriodAnalysisProps) {
+  const [mode, setMode] = useState<AnalysisMode>('trailing');
+  const [windowMonths, setWindowMonths] = useState(12);
+  const [stepMonths, setStepMonths] = useState(1);
+
   const periodResults = useMemo<PeriodResult[]>(() => {
     if (cashFlows.length < 2) return [];
 
-    const sortedFlows = [...cashFlows].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const sortedFlows = [...cashFlows].sort((a, b) => compareDates(a.date, b.date));
     const endDate = sortedFlows[sortedFlows.length - 1].date;
 
     const periods = [
@@ -40,14 +53,14 @@ export function MultiPeriodAnalysis({ cashFlows }: MultiPeriodAnalysisProps) {
         };
       }
 
-      const xirrResult = calculateXIRR(filteredFlows);
+      const outcome = calculateXIRR(filteredFlows, { dayCount, mode: xirrMode });
 
-      if (!xirrResult) {
+      if (!outcome.ok) {
         return {
           period,
           years,
           result: null,
-          error: 'Unable to calculate (invalid cash flow pattern)',
+          error: outcome.error.message,
           filteredFlows
         };
       }
@@ -55,11 +68,16 @@ export function MultiPeriodAnalysis({ cashFlows }: MultiPeriodAnalysisProps) {
       return {
         period,
         years,
-        result: xirrResult,
+        result: outcome.value,
         filteredFlows
       };
     });
-  }, [cashFlows]);
+  }, [cashFlows, dayCount, xirrMode]);
+
+  const rolling = useMemo(
+    () => (mode === 'rolling' ? calculateRollingXIRR(cashFlows, windowMonths, stepMonths, dayCount, xirrMode) : null),
+    [mode, cashFlows, windowMonths, stepMonths, dayCount, xirrMode]
+  );
 
   const methodStats = useMemo(() => {
     const validResults = periodResults.filter(pr => pr.result !== null);
@@ -87,8 +105,114 @@ export function MultiPeriodAnalysis({ cashFlows }: MultiPeriodAnalysisProps) {
           Multi-Period Performance Analysis
         </h2>
         <p className="text-slate-600 mt-2">Compare returns across different time horizons</p>
+        <div className="mt-4 inline-flex rounded-lg bg-slate-100 p-1">
+          <button
+            onClick={() => setMode('trailing')}
+            className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              mode === 'trailing' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'
+            }`}
+          >
+            <Calendar className="w-4 h-4" />
+            Trailing Periods
+          </button>
+          <button
+            onClick={() => setMode('rolling')}
+            className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              mode === 'rolling' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'
+            }`}
+          >
+            <Activity className="w-4 h-4" />
+            Rolling Window
+          </button>
+        </div>
       </div>
 
+      {rolling ? (
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-slate-200">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800">
+                Rolling {ROLLING_WINDOW_OPTIONS.find(o => o.value === windowMonths)?.label} {rolling.annualized ? 'XIRR' : 'Return'}
+              </h3>
+              <p className="text-xs text-slate-500 mt-1">
+                {rolling.annualized ? 'Annualized' : 'Cumulative (not annualized)'} · windows end on the final value and, each step before it, on the latest market value up to a month-end
+              </p>
+            </div>
+            <div className="flex items-end gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Window</label>
+                <select
+                  value={windowMonths}
+                  onChange={(e) => setWindowMonths(parseInt(e.target.value))}
+                  className="px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {ROLLING_WINDOW_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Step</label>
+                <select
+                  value={stepMonths}
+                  onChange={(e) => setStepMonths(parseInt(e.target.value))}
+                  className="px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {ROLLING_STEP_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+              <p className="text-xs text-slate-600 font-medium">Windows</p>
+              <p className="text-xl font-bold text-slate-800">{rolling.stats.count}</p>
+              {(rolling.stats.failed > 0 || rolling.stats.skipped > 0) && (
+                <p className="text-[10px] text-slate-500">
+                  {rolling.stats.failed} failed, {rolling.stats.skipped} without a valuation
+                </p>
+              )}
+            </div>
+            <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+              <p className="text-xs text-slate-600 font-medium">Minimum</p>
+              <p className="text-xl font-bold text-red-600">{rolling.stats.min ? formatPercent(rolling.stats.min.value!) : '—'}</p>
+              {rolling.stats.min && (
+                <p className="text-[10px] text-slate-500">ending {formatCalendarDate(rolling.stats.min.endDate)}</p>
+              )}
+            </div>
+            <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+              <p className="text-xs text-slate-600 font-medium">Median</p>
+              <p className="text-xl font-bold text-slate-800">{rolling.stats.median === null ? '—' : formatPercent(rolling.stats.median)}</p>
+            </div>
+            <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+              <p className="text-xs text-slate-600 font-medium">Maximum</p>
+              <p className="text-xl font-bold text-green-600">{rolling.stats.max ? formatPercent(rolling.stats.max.value!) : '—'}</p>
+              {rolling.stats.max && (
+                <p className="text-[10px] text-slate-500">ending {formatCalendarDate(rolling.stats.max.endDate)}</p>
+              )}
+            </div>
+          </div>
+
+          {rolling.windows.length === 0 ? (
+            <div className="p-6 text-center text-sm text-slate-500 bg-slate-50 rounded-lg">
+              The cash flow history is shorter than one window, or no flows carry a market value.
+              Add market values to intermediate flows to produce rolling results.
+            </div>
+          ) : (
+            <TimeSeriesChart
+              points={rolling.windows.map(w => ({ date: w.endDate, value: w.value }))}
+              formatValue={formatPercent}
+              referenceLines={rolling.stats.median === null ? [] : [
+                { value: rolling.stats.median, label: `Median ${formatPercent(rolling.stats.median)}`, className: 'stroke-slate-500' }
+              ]}
+            />
+          )}
+        </div>
+      ) : (
+      <>
       <div className="mb-6 p-4 bg-gradient-to-br from-slate-700 to-slate-800 text-white rounded-lg">
         <div className="flex items-center justify-between">
           <div>
@@ -147,7 +271,7 @@ export function MultiPeriodAnalysis({ cashFlows }: MultiPeriodAnalysisProps) {
                 </div>
               ) : periodResult.result ? (
                 (() => {
-                  const sortedFlows = periodResult.filteredFlows?.sort((a, b) => a.date.getTime() - b.date.getTime()) || [];
+                  const sortedFlows = periodResult.filteredFlows?.sort((a, b) => compareDates(a.date, b.date)) || [];
                   const startValue = sortedFlows[0]?.amount || 0;
                   const endValue = sortedFlows[sortedFlows.length - 1]?.amount || 0;
                   const intermediateFlows = sortedFlows.slice(1, -1).reduce((sum, flow) => sum + flow.amount, 0);
@@ -155,7 +279,7 @@ export function MultiPeriodAnalysis({ cashFlows }: MultiPeriodAnalysisProps) {
                   return (
                     <div className="space-y-2">
                       <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded p-2 border border-green-200 text-center">
-                        {periodResult.result.totalDays < 365 ? (
+                        {!periodResult.result.annualized ? (
                           <>
                             <p className="text-[9px] text-slate-600 mb-0.5 font-medium">Simple Return</p>
                             <p className={`text-xl font-bold ${
@@ -228,6 +352,8 @@ export function MultiPeriodAnalysis({ cashFlows }: MultiPeriodAnalysisProps) {
           </div>
         ))}
       </div>
+      </>
+      )}
 
       <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
         <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
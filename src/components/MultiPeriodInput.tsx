@@ -1,12 +1,22 @@
-import { useState } from 'react';
-import { Plus, Trash2, TrendingUp, Calendar, AlertCircle, DollarSign, GitCompare, CheckCircle2, AlertTriangle, ChevronDown, ChevronUp, Download } from 'lucide-react';
-import { CashFlow, calculateXIRR, XIRRResult } from '../utils/xirr';
+import { useMemo, useState } from 'react';
+import { Plus, Trash2, TrendingUp, Calendar, AlertCircle, DollarSign, GitCompare, CheckCircle2, AlertTriangle, ChevronDown, ChevronUp, Download, Loader2, CalendarRange, FileSpreadsheet } from 'lucide-react';
+import { ANNUALIZATION_POLICIES, AnnualizationPolicy, DayCountConvention, XIRRMode } from '../utils/xirr';
+import { XIRRResultsDocument, XIRRWindowResult, toWindowResult } from '../utils/apiBatch';
+import { BenchmarkSeries } from '../utils/benchmark';
+import { XLSX_MIME_TYPE, buildResultsWorkbook } from '../utils/resultsWorkbook';
+import { usePeriodResults } from '../hooks/usePeriodResults';
+import { isCalendarPeriod } from '../utils/calendarPeriods';
+import { addYears, compareDates, formatCalendarDate, parseCalendarDate, today } from '../utils/calendarDate';
+import { CalendarPeriodGenerator } from './CalendarPeriodGenerator';
+import { CalendarReturnsMatrix } from './CalendarReturnsMatrix';
+import { CashFlowCharts } from './CashFlowCharts';
 
 interface FlowInput {
   id: string;
   date: string;
   amount: string;
   description: string;
+  marketValue?: string;
 }
 
 interface Period {
@@ -16,6 +26,16 @@ interface Period {
   endDate: string;
   startValue: string;
   endValue: string;
+  annualized?: AnnualizationPolicy;
+  benchmark?: string;
+}
+
+// PME needs a benchmark series, which only multi-period analysis has
+interface PeriodWindowResult extends XIRRWindowResult {
+  benchmark?: string;
+  'ks-pme'?: number;
+  'ln-pme-irr'?: number;
+  'direct-alpha'?: number;
 }
 
 interface PeriodValues {
@@ -27,19 +47,11 @@ interface MultiPeriodInputProps {
   setPeriodValues: (values: PeriodValues) => void;
   flows: FlowInput[];
   setFlows: (flows: FlowInput[]) => void;
-  buildPeriodCashFlows: (startDate: string, endDate: string, startValue: string, endValue: string) => CashFlow[];
-}
-
-interface PeriodResult {
-  period: string;
-  startDate: string;
-  endDate: string;
-  years: number;
-  cashFlows: CashFlow[];
-  result: XIRRResult | null;
-  error?: string;
-  inputStartValue: number;
-  inputEndValue: number;
+  dayCount: DayCountConvention;
+  xirrMode: XIRRMode;
+  financeRate: number;
+  reinvestmentRate: number;
+  benchmarks: BenchmarkSeries[];
 }
 
 export function MultiPeriodInput({
@@ -47,11 +59,27 @@ export function MultiPeriodInput({
   setPeriodValues,
   flows,
   setFlows,
-  buildPeriodCashFlows
+  dayCount,
+  xirrMode,
+  financeRate,
+  reinvestmentRate,
+  benchmarks
 }: MultiPeriodInputProps) {
   const [showResults, setShowResults] = useState(false);
   const [periodsExpanded, setPeriodsExpanded] = useState(true);
   const [cashFlowsExpanded, setCashFlowsExpanded] = useState(true);
+  const [showGenerator, setShowGenerator] = useState(false);
+
+  const calculationOptions = useMemo(
+    () => ({ dayCount, mode: xirrMode, financeRate, reinvestmentRate }),
+    [dayCount, xirrMode, financeRate, reinvestmentRate]
+  );
+  const {
+    results: periodResults,
+    calculating,
+    progress,
+    error: calculationError
+  } = usePeriodResults(periodValues.periods, flows, benchmarks, calculationOptions, showResults);
 
   const addFlow = () => {
     setFlows([...flows, {
@@ -71,18 +99,16 @@ export function MultiPeriodInput({
   };
 
   const addPeriod = () => {
-    const today = new Date().toISOString().split('T')[0];
-    const oneYearAgo = new Date();
-    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-    const startDate = oneYearAgo.toISOString().split('T')[0];
+    const endDate = today();
 
     const newPeriod: Period = {
       id: Date.now().toString(),
       label: `Period ${periodValues.periods.length + 1}`,
-      startDate,
-      endDate: today,
+      startDate: addYears(endDate, -1),
+      endDate,
       startValue: '',
-      endValue: ''
+      endValue: '',
+      annualized: 'at-least-one-year'
     };
     setPeriodValues({
       ...periodValues,
@@ -99,6 +125,28 @@ export function MultiPeriodInput({
     }
   };
 
+  const knownValuations = () => {
+    // Flow market values first so explicit period values win for the same date
+    const lines = [
+      ...flows.filter(f => f.date && f.marketValue).map(f => `${f.date},${f.marketValue}`),
+      ...periodValues.periods.flatMap(p => [
+        ...(p.startDate && p.startValue ? [`${p.startDate},${Math.abs(parseFloat(p.startValue))}`] : []),
+        ...(p.endDate && p.endValue ? [`${p.endDate},${p.endValue}`] : [])
+      ])
+    ];
+    return ['Date,Value', ...lines].join('\n');
+  };
+
+  const applyCalendarPeriods = (generated: Period[]) => {
+    // Keep hand-entered periods, drop earlier generated ones and empty placeholders
+    const kept = periodValues.periods.filter(p => !isCalendarPeriod(p) && (p.startValue || p.endValue));
+    setPeriodValues({
+      ...periodValues,
+      periods: [...kept, ...generated]
+    });
+    setShowGenerator(false);
+  };
+
   const updatePeriod = (id: string, field: keyof Period, value: string | number) => {
     setPeriodValues({
       ...periodValues,
@@ -115,33 +163,31 @@ export function MultiPeriodInput({
   const generateJSON = () => {
     const startTime = Date.now();
 
-    const windows = periodResults.map((pr, index) => {
-      if (pr.error || !pr.result) {
-        return {
-          "window-id": (index + 1).toString(),
-          "converged": false,
-          "error": pr.error || "Unable to calculate XIRR",
-          "iterations": 0,
-          "xirr": -999.99
-        };
-      }
-
-      const selectedMethod = pr.result.hasDifference &&
-        Math.abs(pr.result.brent.finalNPV) < Math.abs(pr.result.newtonRaphson.finalNPV)
-        ? pr.result.brent
-        : pr.result.newtonRaphson;
-
+    const windows = periodResults.map((pr, index): PeriodWindowResult => {
+      // Imported API windows keep their original window-id so results can be matched back
+      const windowId = pr.periodId.startsWith('window-') ? pr.periodId.slice('window-'.length) : (index + 1).toString();
+      const windowResult = toWindowResult(windowId, pr.result, undefined, pr.error);
       return {
-        "window-id": (index + 1).toString(),
-        "converged": selectedMethod.converged,
-        "iterations": selectedMethod.iterations,
-        "xirr": parseFloat(selectedMethod.rate.toFixed(15))
+        ...windowResult,
+        ...(pr.mirr && { mirr: parseFloat(pr.mirr.mirr.toFixed(15)) }),
+        ...(pr.multiples && {
+          'paid-in-capital': pr.multiples.paidInCapital,
+          dpi: parseFloat(pr.multiples.dpi.toFixed(6)),
+          rvpi: parseFloat(pr.multiples.rvpi.toFixed(6)),
+          tvpi: parseFloat(pr.multiples.tvpi.toFixed(6))
+        }),
+        ...(pr.pme && {
+          benchmark: pr.pme.benchmark,
+          'ks-pme': parseFloat(pr.pme.ksPME.toFixed(6)),
+          ...(pr.pme.longNickelsIRR !== null && { 'ln-pme-irr': parseFloat(pr.pme.longNickelsIRR.toFixed(15)) }),
+          ...(pr.pme.directAlpha !== null && { 'direct-alpha': parseFloat(pr.pme.directAlpha.toFixed(15)) })
+        })
       };
     });
 
     const calcTime = Date.now() - startTime;
 
-    const jsonOutput = {
+    const jsonOutput: XIRRResultsDocument<PeriodWindowResult> = {
       "type": "xirr-results",
       "calc-time": `${calcTime} ms`,
       "request-id": `${Date.now()}-user-generated`,
@@ -164,57 +210,30 @@ export function MultiPeriodInput({
     URL.revokeObjectURL(url);
   };
 
-  const periodResults: PeriodResult[] = periodValues.periods.map(p => {
-    const cashFlows = buildPeriodCashFlows(p.startDate, p.endDate, p.startValue, p.endValue);
-
-    const startDate = new Date(p.startDate);
-    const endDate = new Date(p.endDate);
-    const daysDiff = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
-    const years = daysDiff / 365.25;
-
-    const inputStartValue = parseFloat(p.startValue) || 0;
-    const inputEndValue = parseFloat(p.endValue) || 0;
-
-    if (cashFlows.length < 2) {
-      return {
-        period: p.label,
-        startDate: p.startDate,
-        endDate: p.endDate,
-        years,
-        cashFlows,
-        result: null,
-        error: 'Please enter start date, end date, and values',
-        inputStartValue,
-        inputEndValue
-      };
-    }
-
-    const result = calculateXIRR(cashFlows);
-    if (!result) {
-      return {
-        period: p.label,
-        startDate: p.startDate,
-        endDate: p.endDate,
-        years,
-        cashFlows,
-        result: null,
-        error: 'Unable to calculate XIRR',
-        inputStartValue,
-        inputEndValue
-      };
-    }
-
-    return {
-      period: p.label,
-      startDate: p.startDate,
-      endDate: p.endDate,
-      years,
-      cashFlows,
-      result,
-      inputStartValue,
-      inputEndValue
-    };
-  });
+  const generateWorkbook = () => {
+    const workbook = buildResultsWorkbook(
+      flows,
+      periodValues.periods,
+      periodResults.map(pr => ({
+        label: pr.period,
+        startDate: pr.startDate,
+        endDate: pr.endDate,
+        cashFlows: pr.cashFlows,
+        result: pr.result,
+        error: pr.error
+      }))
+    );
+
+    const blob = new Blob([workbook], { type: XLSX_MIME_TYPE });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `xirr-results-${Date.now()}.xlsx`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
 
   return (
     <div className="space-y-8">
@@ -239,13 +258,23 @@ export function MultiPeriodInput({
               </p>
             </div>
           </div>
-          <button
-            onClick={addPeriod}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-          >
-            <Plus className="w-4 h-4" />
-            Add Period
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowGenerator(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors font-medium"
+              title="Create a period for every calendar quarter, year, YTD and QTD from period-end valuations"
+            >
+              <CalendarRange className="w-4 h-4" />
+              Calendar Periods
+            </button>
+            <button
+              onClick={addPeriod}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              <Plus className="w-4 h-4" />
+              Add Period
+            </button>
+          </div>
         </div>
 
         {periodsExpanded && (
@@ -257,7 +286,7 @@ export function MultiPeriodInput({
               className="border border-slate-200 rounded-lg p-4 bg-slate-50"
             >
               <div className="flex items-start gap-4">
-                <div className="flex-1 grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div className="flex-1 grid grid-cols-1 md:grid-cols-6 gap-4">
                   <div>
                     <label className="block text-xs font-medium text-slate-700 mb-1">Period Label</label>
                     <input
@@ -310,6 +339,33 @@ export function MultiPeriodInput({
                       className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     />
                   </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-700 mb-1">Annualize</label>
+                    <select
+                      value={period.annualized || 'at-least-one-year'}
+                      onChange={(e) => updatePeriod(period.id, 'annualized', e.target.value)}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+                    >
+                      {ANNUALIZATION_POLICIES.map(policy => (
+                        <option key={policy.value} value={policy.value}>{policy.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {benchmarks.length > 0 && (
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-medium text-slate-700 mb-1">PME Benchmark</label>
+                    <select
+                      value={period.benchmark || ''}
+                      onChange={(e) => updatePeriod(period.id, 'benchmark', e.target.value)}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+                    >
+                      <option value="">None</option>
+                      {benchmarks.map(b => (
+                        <option key={b.name} value={b.name}>{b.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  )}
                 </div>
                 <button
                   onClick={() => removePeriod(period.id)}
@@ -367,8 +423,9 @@ export function MultiPeriodInput({
           <div className="space-y-3">
             <div className="grid grid-cols-12 gap-3 text-sm font-medium text-slate-600 px-2">
               <div className="col-span-3">Date</div>
-              <div className="col-span-3">Amount</div>
-              <div className="col-span-5">Description</div>
+              <div className="col-span-2">Amount</div>
+              <div className="col-span-2" title="Portfolio value on the flow date, before the flow (used for TWR)">Market Value</div>
+              <div className="col-span-4">Description</div>
               <div className="col-span-1"></div>
             </div>
 
@@ -386,14 +443,22 @@ export function MultiPeriodInput({
                   value={flow.amount}
                   onChange={(e) => updateFlow(flow.id, 'amount', e.target.value)}
                   placeholder="Amount"
-                  className="col-span-3 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  className="col-span-2 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={flow.marketValue || ''}
+                  onChange={(e) => updateFlow(flow.id, 'marketValue', e.target.value)}
+                  placeholder="Optional"
+                  className="col-span-2 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
                 <input
                   type="text"
                   value={flow.description}
                   onChange={(e) => updateFlow(flow.id, 'description', e.target.value)}
                   placeholder="Description"
-                  className="col-span-5 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  className="col-span-4 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
                 <button
                   onClick={() => removeFlow(flow.id)}
@@ -413,6 +478,7 @@ export function MultiPeriodInput({
             <li>Use positive amounts for distributions or withdrawals (e.g., 5000)</li>
             <li>Only include flows that occurred between your periods</li>
             <li>The system will automatically include these flows in the relevant periods</li>
+            <li>Enter the market value just before each flow to get time-weighted returns (TWR)</li>
           </ul>
         </div>
         </>
@@ -434,6 +500,31 @@ export function MultiPeriodInput({
               Multi-Period Performance Analysis
             </h2>
             <p className="text-slate-600 mt-2">Compare returns across different time horizons</p>
+            <button
+              onClick={generateJSON}
+              disabled={calculating}
+              className="mt-4 inline-flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              Download Results JSON
+            </button>
+            <button
+              onClick={generateWorkbook}
+              disabled={calculating}
+              className="mt-4 ml-3 inline-flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+              Download Results Excel
+            </button>
+            {calculating && (
+              <p className="mt-2 text-sm text-slate-500 flex items-center justify-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Recalculating{progress ? ` (${progress.completed}/${progress.total} periods)` : ''}…
+              </p>
+            )}
+            {calculationError && (
+              <p className="mt-2 text-sm text-red-600">Calculation failed: {calculationError}</p>
+            )}
           </div>
 
           {(() => {
@@ -442,6 +533,7 @@ export function MultiPeriodInput({
             const mismatchedPeriods = validResults.filter(pr => pr.result?.hasDifference);
             const methodMismatches = mismatchedPeriods.length;
             const mismatchPeriodNames = mismatchedPeriods.map(pr => pr.period);
+            const nonUniquePeriods = validResults.filter(pr => pr.result?.multipleRoots);
 
             return (
               <div className="mb-6 p-4 bg-gradient-to-br from-slate-700 to-slate-800 text-white rounded-lg">
@@ -459,6 +551,12 @@ export function MultiPeriodInput({
                         </span>
                         <span className="text-sm text-slate-300 ml-2">Method Mismatches</span>
                       </div>
+                      <div>
+                        <span className={`text-3xl font-bold ${nonUniquePeriods.length > 0 ? 'text-amber-400' : 'text-green-400'}`}>
+                          {nonUniquePeriods.length}
+                        </span>
+                        <span className="text-sm text-slate-300 ml-2">Multiple IRRs</span>
+                      </div>
                     </div>
                   </div>
                   {methodMismatches > 0 ? (
@@ -472,12 +570,16 @@ export function MultiPeriodInput({
                     {methodMismatches === 0
                       ? 'All calculation methods agree on the results.'
                       : `${methodMismatches} out of ${totalCalculations} calculations show differences between Newton-Raphson and Brent's method (${mismatchPeriodNames.join(', ')}).`}
+                    {nonUniquePeriods.length > 0 &&
+                      ` ${nonUniquePeriods.length} period(s) have more than one valid IRR (${nonUniquePeriods.map(pr => pr.period).join(', ')}).`}
                   </p>
                 )}
               </div>
             );
           })()}
 
+          <CalendarReturnsMatrix results={periodResults} />
+
           <div className="grid md:grid-cols-3 lg:grid-cols-4 gap-6">
             {periodResults.map((periodResult, index) => {
               const colors = [
@@ -491,10 +593,8 @@ export function MultiPeriodInput({
               const colorClass = colors[index % colors.length];
 
               const formatDate = (dateStr: string) => {
-                if (!dateStr) return '';
-                const [year, month, day] = dateStr.split('-');
-                const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-                return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+                const date = parseCalendarDate(dateStr);
+                return date ? formatCalendarDate(date, { year: 'numeric', month: 'short', day: 'numeric' }, 'en-US') : '';
               };
 
               return (
@@ -517,8 +617,13 @@ export function MultiPeriodInput({
                     <div className="flex items-start gap-2 p-4 bg-amber-50 border border-amber-200 rounded-lg">
                       <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
                       <div>
-                        <p className="text-sm font-medium text-amber-800">Not Available</p>
+                        <p className="text-sm font-medium text-amber-800">{periodResult.errorCode ? 'XIRR Undefined' : 'Not Available'}</p>
                         <p className="text-xs text-amber-700 mt-1">{periodResult.error}</p>
+                        {periodResult.mirr && (
+                          <p className="text-xs text-slate-700 mt-2">
+                            MIRR: <span className="font-mono font-semibold">{periodResult.mirr.mirrPercent}%</span>
+                          </p>
+                        )}
                       </div>
                     </div>
                   ) : periodResult.result ? (
@@ -534,15 +639,19 @@ export function MultiPeriodInput({
                             <p className="text-3xl font-bold text-amber-600">N/A</p>
                             <p className="text-[10px] text-amber-700 mt-1">Methods disagree - result unreliable</p>
                           </>
-                        ) : periodResult.result.totalDays < 365 ? (
+                        ) : !periodResult.result.annualized ? (
                           <>
-                            <p className="text-xs text-slate-600 mb-1 font-medium">Simple Return (Non-Annualized)</p>
+                            <p className="text-xs text-slate-600 mb-1 font-medium">Cumulative Return (Non-Annualized)</p>
                             <p className={`text-3xl font-bold ${
                               parseFloat(periodResult.result.simpleReturnPercent) >= 0 ? 'text-green-600' : 'text-red-600'
                             }`}>
                               {periodResult.result.simpleReturnPercent}%
                             </p>
-                            <p className="text-[10px] text-slate-500 mt-1">Period is less than 12 months</p>
+                            <p className="text-[10px] text-slate-500 mt-1">
+                              {periodResult.result.annualizationPolicy === 'never'
+                                ? 'Annualization disabled for this period'
+                                : 'Period is shorter than the annualization threshold'}
+                            </p>
                           </>
                         ) : (
                           <>
@@ -556,6 +665,167 @@ export function MultiPeriodInput({
                         )}
                       </div>
 
+                      {periodResult.mirr && (
+                        <div className="flex justify-between items-center p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                          <div>
+                            <p className="text-xs text-slate-600 font-medium">MIRR</p>
+                            <p className="text-[10px] text-slate-500">
+                              {(periodResult.mirr.financeRate * 100).toFixed(1)}% finance / {(periodResult.mirr.reinvestmentRate * 100).toFixed(1)}% reinvest
+                            </p>
+                          </div>
+                          <span className={`text-xl font-bold ${periodResult.mirr.mirr >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {periodResult.mirr.mirrPercent}%
+                          </span>
+                        </div>
+                      )}
+
+                      <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                        <p className="text-xs text-slate-600 font-medium">Time-Weighted Return (TWR)</p>
+                        {periodResult.twr ? (
+                          <div className="mt-1 grid grid-cols-2 gap-2">
+                            <div>
+                              <p className="text-[10px] text-slate-500">Cumulative</p>
+                              <p className={`font-bold ${periodResult.twr.twr >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {periodResult.twr.twrPercent}%
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-[10px] text-slate-500">Annualized</p>
+                              <p className={`font-bold ${periodResult.twr.annualizedTWR >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {periodResult.twr.annualizedTWRPercent}%
+                              </p>
+                            </div>
+                            <p className="col-span-2 text-[10px] text-slate-500">
+                              {periodResult.twr.subPeriodReturns.length} linked sub-periods
+                            </p>
+                          </div>
+                        ) : (
+                          <p className="text-[10px] text-slate-500 mt-1">
+                            {periodResult.missingValuations > 0
+                              ? `Add market values to ${periodResult.missingValuations} flow(s) in this period to compute TWR`
+                              : 'Not available for this period'}
+                          </p>
+                        )}
+                      </div>
+
+                      {periodResult.modifiedDietz && (() => {
+                        // Dietz is a cumulative return, so compare it with XIRR compounded over the period
+                        const xirrCumulative = Math.pow(1 + periodResult.result.xirr, periodResult.years) - 1;
+                        const gapBps = (periodResult.modifiedDietz.rate - xirrCumulative) * 10000;
+                        const largeGap = Math.abs(gapBps) > 50;
+
+                        return (
+                          <div className={`p-3 rounded-lg border ${largeGap ? 'bg-amber-50 border-amber-300' : 'bg-slate-50 border-slate-200'}`}>
+                            <p className="text-xs text-slate-600 font-medium">Dietz Returns (Cumulative)</p>
+                            <div className="mt-1 space-y-1 text-[11px]">
+                              <div className="flex justify-between">
+                                <span className="text-slate-600">Modified Dietz</span>
+                                <span className="font-mono font-semibold text-slate-800">{periodResult.modifiedDietz.ratePercent}%</span>
+                              </div>
+                              {periodResult.simpleDietz && (
+                                <div className="flex justify-between">
+                                  <span className="text-slate-600">Simple Dietz</span>
+                                  <span className="font-mono font-semibold text-slate-800">{periodResult.simpleDietz.ratePercent}%</span>
+                                </div>
+                              )}
+                              <div className="flex justify-between">
+                                <span className="text-slate-600">XIRR (cumulative)</span>
+                                <span className="font-mono font-semibold text-slate-800">{(xirrCumulative * 100).toFixed(2)}%</span>
+                              </div>
+                              <div className="flex justify-between pt-1 border-t border-slate-200">
+                                <span className={largeGap ? 'text-amber-800 font-medium' : 'text-slate-600'}>Gap vs XIRR</span>
+                                <span className={`font-mono font-semibold ${largeGap ? 'text-amber-900' : 'text-slate-800'}`}>
+                                  {gapBps.toFixed(1)} bps
+                                </span>
+                              </div>
+                            </div>
+                            {largeGap && (
+                              <p className="text-[10px] text-amber-700 mt-1">Large gap — check for misdated or missing flows</p>
+                            )}
+                          </div>
+                        );
+                      })()}
+
+                      {periodResult.multiples && (
+                        <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                          <p className="text-xs text-slate-600 font-medium">Fund Multiples</p>
+                          <div className="mt-1 grid grid-cols-3 gap-2 text-center">
+                            <div>
+                              <p className="text-[10px] text-slate-500">TVPI</p>
+                              <p className="font-mono font-semibold text-slate-800">{periodResult.multiples.tvpi.toFixed(2)}x</p>
+                            </div>
+                            <div>
+                              <p className="text-[10px] text-slate-500">DPI</p>
+                              <p className="font-mono font-semibold text-slate-800">{periodResult.multiples.dpi.toFixed(2)}x</p>
+                            </div>
+                            <div>
+                              <p className="text-[10px] text-slate-500">RVPI</p>
+                              <p className="font-mono font-semibold text-slate-800">{periodResult.multiples.rvpi.toFixed(2)}x</p>
+                            </div>
+                          </div>
+                          <p className="text-[10px] text-slate-500 mt-1">
+                            Paid-in capital: ${periodResult.multiples.paidInCapital.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                          </p>
+                        </div>
+                      )}
+
+                      {periodResult.benchmark && (
+                        <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                          <p className="text-xs text-slate-600 font-medium">Public Market Equivalent ({periodResult.benchmark})</p>
+                          {periodResult.pme ? (
+                            <>
+                              <div className="mt-1 grid grid-cols-3 gap-2 text-center">
+                                <div title="Kaplan-Schoar PME: index-compounded distributions and NAV over index-compounded contributions">
+                                  <p className="text-[10px] text-slate-500">KS-PME</p>
+                                  <p className={`font-mono font-semibold ${periodResult.pme.ksPME >= 1 ? 'text-green-600' : 'text-red-600'}`}>
+                                    {periodResult.pme.ksPME.toFixed(2)}x
+                                  </p>
+                                </div>
+                                <div title="Long-Nickels PME: IRR earned by investing the same flows in the index">
+                                  <p className="text-[10px] text-slate-500">LN-PME IRR</p>
+                                  <p className="font-mono font-semibold text-slate-800">
+                                    {periodResult.pme.longNickelsIRR === null ? '—' : `${(periodResult.pme.longNickelsIRR * 100).toFixed(2)}%`}
+                                  </p>
+                                </div>
+                                <div title="Direct Alpha: annualized excess return over the index">
+                                  <p className="text-[10px] text-slate-500">Direct Alpha</p>
+                                  <p className={`font-mono font-semibold ${
+                                    periodResult.pme.directAlpha === null ? 'text-slate-800' : periodResult.pme.directAlpha >= 0 ? 'text-green-600' : 'text-red-600'
+                                  }`}>
+                                    {periodResult.pme.directAlpha === null ? '—' : `${(periodResult.pme.directAlpha * 100).toFixed(2)}%`}
+                                  </p>
+                                </div>
+                              </div>
+                              <p className="text-[10px] text-slate-500 mt-1">
+                                Index return {(periodResult.pme.indexReturn * 100).toFixed(2)}%
+                                {periodResult.pme.longNickelsIRR !== null &&
+                                  ` · XIRR spread vs LN-PME ${((periodResult.result.xirr - periodResult.pme.longNickelsIRR) * 10000).toFixed(0)} bps`}
+                                {periodResult.pme.longNickelsNAV < 0 && ' · LN-PME NAV is negative'}
+                              </p>
+                            </>
+                          ) : (
+                            <p className="text-[10px] text-slate-500 mt-1">Benchmark series does not cover every flow date in this period</p>
+                          )}
+                        </div>
+                      )}
+
+                      {periodResult.result.multipleRoots && (
+                        <div className="p-3 bg-amber-50 border border-amber-300 rounded-lg">
+                          <p className="text-xs font-semibold text-amber-800 flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            Multiple IRRs ({periodResult.result.signChanges} sign changes)
+                          </p>
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {periodResult.result.roots.map(root => (
+                              <span key={root} className="font-mono text-[11px] font-semibold text-amber-900 bg-amber-100 px-1.5 py-0.5 rounded">
+                                {(root * 100).toFixed(4)}%
+                              </span>
+                            ))}
+                          </div>
+                          <p className="text-[10px] text-amber-700 mt-1">The rate shown is one of several valid solutions</p>
+                        </div>
+                      )}
+
                       <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-lg p-4 border-2 border-blue-300 shadow-md">
                         <div className="flex items-center justify-between mb-3">
                           <h4 className="text-sm font-semibold text-blue-800 flex items-center gap-1">
@@ -620,9 +890,11 @@ export function MultiPeriodInput({
                         </div>
                       </div>
 
+                      <CashFlowCharts cashFlows={periodResult.cashFlows} result={periodResult.result} compact />
+
                       <div className="space-y-3 text-sm">
                         {(() => {
-                          const sortedFlows = [...periodResult.cashFlows].sort((a, b) => a.date.getTime() - b.date.getTime());
+                          const sortedFlows = [...periodResult.cashFlows].sort((a, b) => compareDates(a.date, b.date));
                           const intermediateFlows = sortedFlows.slice(1, -1).reduce((sum, flow) => sum + flow.amount, 0);
                           const displayStartValue = periodResult.inputStartValue;
                           const displayEndValue = periodResult.inputEndValue;
@@ -671,7 +943,7 @@ export function MultiPeriodInput({
                                   Time Period
                                 </span>
                                 <span className="font-semibold text-slate-800">
-                                  {periodResult.result.totalDays} days
+                                  {periodResult.result.totalDays} days ({periodResult.years.toFixed(2)} yrs)
                                 </span>
                               </div>
                             </>
@@ -696,8 +968,9 @@ export function MultiPeriodInput({
                 <h4 className="font-semibold text-slate-800 mb-2">How It Works</h4>
                 <p className="leading-relaxed">
                   The calculator uses your period start/end values plus any intermediate cash flows to compute
-                  returns for each time horizon. Periods under 12 months show simple returns, while periods
-                  12 months or longer show annualized returns (XIRR).
+                  returns for each time horizon. Each period's annualization setting decides whether it shows an
+                  annualized return (XIRR) or the cumulative return; by default periods of at least one year
+                  are annualized.
                 </p>
               </div>
               <div>
@@ -712,6 +985,14 @@ export function MultiPeriodInput({
           </div>
         </div>
       )}
+
+      {showGenerator && (
+        <CalendarPeriodGenerator
+          initialValuations={knownValuations()}
+          onGenerate={applyCalendarPeriods}
+          onClose={() => setShowGenerator(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,181 @@
+import { useMemo, useState } from 'react';
+import { Scale, CheckCircle2, AlertTriangle, XCircle, X } from 'lucide-react';
+import { APIRequest, XIRRResultsDocument, evaluateAPIRequest, requestNanValue } from '../utils/apiBatch';
+import { DayCountConvention, XIRRMode } from '../utils/xirr';
+import { ReconciliationRow, reconcileResults, summarizeReconciliation } from '../utils/reconciliation';
+
+interface ReconciliationViewProps {
+  request: APIRequest;
+  response: XIRRResultsDocument;
+  dayCount: DayCountConvention;
+  mode: XIRRMode;
+  onClose: () => void;
+}
+
+const formatRate = (value: number | null) => {
+  if (value === null) return '—';
+  return `${(value * 100).toFixed(6)}%`;
+};
+
+const statusBadge = (row: ReconciliationRow) => {
+  switch (row.status) {
+    case 'pass':
+      return (
+        <span className="inline-flex items-center gap-1 text-xs font-medium text-green-700 bg-green-100 px-2 py-0.5 rounded">
+          <CheckCircle2 className="w-3 h-3" />
+          Pass
+        </span>
+      );
+    case 'fail':
+      return (
+        <span className="inline-flex items-center gap-1 text-xs font-medium text-red-700 bg-red-100 px-2 py-0.5 rounded">
+          <XCircle className="w-3 h-3" />
+          Fail
+        </span>
+      );
+    case 'duplicate':
+      return (
+        <span className="inline-flex items-center gap-1 text-xs font-medium text-red-700 bg-red-100 px-2 py-0.5 rounded">
+          <XCircle className="w-3 h-3" />
+          Duplicate
+        </span>
+      );
+    default:
+      return (
+        <span className="inline-flex items-center gap-1 text-xs font-medium text-amber-700 bg-amber-100 px-2 py-0.5 rounded">
+          <AlertTriangle className="w-3 h-3" />
+          Missing
+        </span>
+      );
+  }
+};
+
+export function ReconciliationView({ request, response, dayCount, mode, onClose }: ReconciliationViewProps) {
+  const [toleranceBps, setToleranceBps] = useState('0.01');
+  const [failuresOnly, setFailuresOnly] = useState(false);
+
+  const nanValue = requestNanValue(request);
+  const ourResults = useMemo(() => evaluateAPIRequest(request, { dayCount, mode }), [request, dayCount, mode]);
+
+  const rows = useMemo(
+    () => reconcileResults(ourResults, response, parseFloat(toleranceBps) || 0, nanValue),
+    [ourResults, response, toleranceBps, nanValue]
+  );
+  const summary = summarizeReconciliation(rows);
+  const visibleRows = failuresOnly ? rows.filter(r => r.status !== 'pass') : rows;
+
+  return (
+    <div className="mb-6 bg-white border border-slate-200 rounded-xl shadow-lg overflow-hidden">
+      <div className="flex justify-between items-center px-6 py-4 bg-gradient-to-r from-slate-700 to-slate-800 text-white">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Scale className="w-5 h-5" />
+            Request vs Response Reconciliation
+          </h3>
+          <p className="text-xs text-slate-300 mt-1 font-mono">{response['request-id']}</p>
+        </div>
+        <button onClick={onClose} className="text-slate-300 hover:text-white" title="Close reconciliation">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+          <div className="flex items-baseline gap-6">
+            <div>
+              <span className="text-2xl font-bold text-slate-800">{summary.total}</span>
+              <span className="text-sm text-slate-500 ml-2">Windows</span>
+            </div>
+            <div>
+              <span className="text-2xl font-bold text-green-600">{summary.passed}</span>
+              <span className="text-sm text-slate-500 ml-2">Pass</span>
+            </div>
+            <div>
+              <span className={`text-2xl font-bold ${summary.failed > 0 ? 'text-red-600' : 'text-slate-400'}`}>{summary.failed}</span>
+              <span className="text-sm text-slate-500 ml-2">Fail</span>
+            </div>
+            <div>
+              <span className={`text-2xl font-bold ${summary.missing > 0 ? 'text-amber-600' : 'text-slate-400'}`}>{summary.missing}</span>
+              <span className="text-sm text-slate-500 ml-2">Missing</span>
+            </div>
+            <div>
+              <span className="text-2xl font-bold text-slate-800">{summary.maxBpsDifference.toFixed(4)}</span>
+              <span className="text-sm text-slate-500 ml-2">Max bps</span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={failuresOnly}
+                onChange={(e) => setFailuresOnly(e.target.checked)}
+                className="rounded border-slate-300"
+              />
+              Failures only
+            </label>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Tolerance (bps)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={toleranceBps}
+                onChange={(e) => setToleranceBps(e.target.value)}
+                className="w-28 px-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto max-h-[60vh] overflow-y-auto border border-slate-200 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-600 sticky top-0">
+              <tr>
+                <th className="text-left font-medium px-3 py-2">Calc ID</th>
+                <th className="text-left font-medium px-3 py-2">Window</th>
+                <th className="text-right font-medium px-3 py-2">Service</th>
+                <th className="text-right font-medium px-3 py-2">Ours</th>
+                <th className="text-right font-medium px-3 py-2">Abs Diff</th>
+                <th className="text-right font-medium px-3 py-2">Diff (bps)</th>
+                <th className="text-left font-medium px-3 py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visibleRows.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-3 py-6 text-center text-slate-500">
+                    {rows.length === 0 ? 'No windows to reconcile.' : 'All windows are within tolerance.'}
+                  </td>
+                </tr>
+              ) : visibleRows.map(row => (
+                <tr
+                  key={`${row.calcId}-${row.windowId}`}
+                  className={row.status === 'fail' || row.status === 'duplicate' ? 'bg-red-50' : row.status === 'pass' ? '' : 'bg-amber-50'}
+                  title={row.note}
+                >
+                  <td className="px-3 py-2 font-mono text-xs text-slate-700">{row.calcId}</td>
+                  <td className="px-3 py-2 font-mono text-xs text-slate-700">{row.windowId}</td>
+                  <td className="px-3 py-2 text-right font-mono text-xs">{formatRate(row.serviceValue)}</td>
+                  <td className="px-3 py-2 text-right font-mono text-xs">{formatRate(row.ourValue)}</td>
+                  <td className="px-3 py-2 text-right font-mono text-xs">
+                    {row.absDifference === null ? '—' : row.absDifference.toExponential(3)}
+                  </td>
+                  <td className="px-3 py-2 text-right font-mono text-xs">
+                    {row.bpsDifference === null ? '—' : row.bpsDifference.toFixed(4)}
+                  </td>
+                  <td className="px-3 py-2">
+                    {statusBadge(row)}
+                    {row.note && row.status !== 'pass' && (
+                      <p className="text-[10px] text-slate-500 mt-0.5">{row.note}</p>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Share2, X } from 'lucide-react';
+import { useAuth } from '../lib/AuthContext';
+import { DatasetSummary, moveDataset } from '../lib/datasets';
+import { Workspace, canEdit } from '../lib/workspaces';
+
+interface ShareDatasetDialogProps {
+  dataset: DatasetSummary;
+  workspaces: Workspace[];
+  onShared: (workspaceId: string | null) => void;
+  onClose: () => void;
+}
+
+export function ShareDatasetDialog({ dataset, workspaces, onShared, onClose }: ShareDatasetDialogProps) {
+  const { user } = useAuth();
+  const [target, setTarget] = useState<string>(dataset.workspace_id ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Only workspaces the user can add datasets to are offered
+  const destinations = workspaces.filter(w => canEdit(w.role));
+  // A workspace owner can also move out a dataset someone else created, which returns it to them
+  const isCreator = dataset.user_id === user?.id;
+
+  const handleShare = async () => {
+    const workspaceId = target || null;
+    setSaving(true);
+    setError('');
+    try {
+      await moveDataset(dataset.id, workspaceId);
+      onShared(workspaceId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to share dataset');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl p-6 max-w-md w-full">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Share2 className="w-5 h-5 text-blue-600" />
+            Share "{dataset.name}"
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Workspace</label>
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            >
+              <option value="">{isCreator ? 'Personal (only you)' : "Creator's personal datasets"}</option>
+              {destinations.map(w => (
+                <option key={w.id} value={w.id}>{w.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">
+              Every member of the workspace can load the dataset and its history; editors and owners can also save new versions, restore and delete it.
+              {destinations.length === 0 && ' Create a workspace from the Workspaces button first.'}
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleShare}
+              disabled={saving || target === (dataset.workspace_id ?? '')}
+              className="flex-1 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Moving...' : 'Move'}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 py-2 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { CalendarDate, dateParts, formatCalendarDate, fromDayNumber, toDayNumber } from '../utils/calendarDate';
+import { niceTicks, yearTicks } from '../utils/chartScale';
+
+interface ChartPoint {
+  date: CalendarDate;
+  value: number | null;
+}
+
+interface ReferenceLine {
+  value: number;
+  label: string;
+  className: string;
+}
+
+interface TimeSeriesChartProps {
+  points: ChartPoint[];
+  formatValue: (value: number) => string;
+  referenceLines?: ReferenceLine[];
+  height?: number;
+}
+
+const WIDTH = 800;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 64 };
+
+export function TimeSeriesChart({ points, formatValue, referenceLines = [], height = 280 }: TimeSeriesChartProps) {
+  const valid = points.filter(p => p.value !== null) as { date: CalendarDate; value: number }[];
+
+  if (valid.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-slate-500 bg-slate-50 rounded-lg" style={{ height }}>
+        No data to chart
+      </div>
+    );
+  }
+
+  const days = points.map(p => toDayNumber(p.date));
+  const minDay = Math.min(...days);
+  const maxDay = Math.max(...days);
+  const values = [...valid.map(p => p.value), ...referenceLines.map(r => r.value), 0];
+  const yTicks = niceTicks(Math.min(...values), Math.max(...values), 5);
+  const minValue = Math.min(yTicks[0], ...values);
+  const maxValue = Math.max(yTicks[yTicks.length - 1], ...values);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (date: CalendarDate) => {
+    const day = toDayNumber(date);
+    return PADDING.left + (maxDay === minDay ? plotWidth / 2 : ((day - minDay) / (maxDay - minDay)) * plotWidth);
+  };
+  const y = (value: number) => PADDING.top + (maxValue === minValue ? plotHeight / 2 : ((maxValue - value) / (maxValue - minValue)) * plotHeight);
+
+  // Break the line wherever a point has no value
+  const segments: string[] = [];
+  let current = '';
+  for (const point of points) {
+    if (point.value === null) {
+      if (current) segments.push(current);
+      current = '';
+    } else {
+      current += `${current ? 'L' : 'M'}${x(point.date).toFixed(1)},${y(point.value).toFixed(1)}`;
+    }
+  }
+  if (current) segments.push(current);
+
+  const xTicks = yearTicks(fromDayNumber(minDay), fromDayNumber(maxDay));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+      {yTicks.map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} className={tick === 0 ? 'stroke-slate-400' : 'stroke-slate-200'} />
+          <text x={PADDING.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[11px]">
+            {formatValue(tick)}
+          </text>
+        </g>
+      ))}
+      {xTicks.map(tick => (
+        <text key={tick} x={x(tick)} y={height - 10} textAnchor="middle" className="fill-slate-500 text-[11px]">
+          {dateParts(tick).year}
+        </text>
+      ))}
+      {referenceLines.map(line => (
+        <g key={line.label}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(line.value)} y2={y(line.value)} strokeDasharray="4 4" className={line.className} />
+          <text x={WIDTH - PADDING.right} y={y(line.value) - 4} textAnchor="end" className="fill-slate-500 text-[10px]">
+            {line.label}
+          </text>
+        </g>
+      ))}
+      {segments.map((d, i) => (
+        <path key={i} d={d} fill="none" strokeWidth={2} className="stroke-blue-600" />
+      ))}
+      {valid.length <= 120 && valid.map(point => (
+        <circle key={point.date} cx={x(point.date)} cy={y(point.value)} r={3} className="fill-blue-600">
+          <title>{`${formatCalendarDate(point.date)}: ${formatValue(point.value)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Users, X, Loader2, Trash2, UserPlus, Plus } from 'lucide-react';
+import {
+  WORKSPACE_ROLES,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  addWorkspaceMember,
+  createWorkspace,
+  listWorkspaceMembers,
+  removeWorkspaceMember,
+  updateWorkspaceMemberRole
+} from '../lib/workspaces';
+
+interface WorkspaceManagerProps {
+  workspaces: Workspace[];
+  activeWorkspaceId: string | null;
+  currentUserId: string;
+  onWorkspacesChanged: (selectId?: string | null) => void;
+  onClose: () => void;
+}
+
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+export function WorkspaceManager({ workspaces, activeWorkspaceId, currentUserId, onWorkspacesChanged, onClose }: WorkspaceManagerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(activeWorkspaceId ?? workspaces[0]?.id ?? null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [membersLoading, setMembersLoading] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('viewer');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const selected = workspaces.find(w => w.id === selectedId) || null;
+  const isOwner = selected?.role === 'owner';
+
+  useEffect(() => {
+    if (!selectedId) {
+      setMembers([]);
+      return;
+    }
+
+    const loadMembers = async () => {
+      setMembersLoading(true);
+      setError('');
+      try {
+        setMembers(await listWorkspaceMembers(selectedId));
+      } catch (err) {
+        setError(errorMessage(err, 'Failed to load members'));
+      } finally {
+        setMembersLoading(false);
+      }
+    };
+
+    loadMembers();
+  }, [selectedId, reloadKey]);
+
+  // Runs a change, then refreshes members (and the workspace list when roles may have changed)
+  const run = async (action: () => Promise<void>, refreshWorkspaces = false) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      setReloadKey(k => k + 1);
+      if (refreshWorkspaces) onWorkspacesChanged();
+    } catch (err) {
+      setError(errorMessage(err, 'Something went wrong'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    setBusy(true);
+    setError('');
+    try {
+      const workspace = await createWorkspace(newName.trim());
+      setNewName('');
+      setSelectedId(workspace.id);
+      onWorkspacesChanged(workspace.id);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to create workspace'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = () => {
+    if (!selectedId || !inviteEmail.trim()) return;
+    run(async () => {
+      await addWorkspaceMember(selectedId, inviteEmail.trim(), inviteRole);
+      setInviteEmail('');
+    });
+  };
+
+  const handleRemove = (member: WorkspaceMember) => {
+    if (!selectedId) return;
+    const leaving = member.userId === currentUserId;
+    if (!confirm(leaving ? `Leave "${selected?.name}"?` : `Remove ${member.email} from "${selected?.name}"?`)) return;
+
+    run(async () => {
+      await removeWorkspaceMember(selectedId, member.userId);
+      if (leaving) {
+        setSelectedId(null);
+        onWorkspacesChanged(null);
+      }
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl p-6 max-w-2xl w-full max-h-[85vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Users className="w-5 h-5 text-blue-600" />
+            Workspaces
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">New Workspace</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g., Fund Operations"
+                className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={busy || !newName.trim()}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="w-4 h-4" />
+                Create
+              </button>
+            </div>
+          </div>
+
+          {workspaces.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Members of</label>
+            <select
+              value={selectedId ?? ''}
+              onChange={(e) => setSelectedId(e.target.value || null)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm mb-3"
+            >
+              {workspaces.map(w => (
+                <option key={w.id} value={w.id}>{w.name} ({w.role})</option>
+              ))}
+            </select>
+
+            {membersLoading ? (
+              <div className="flex items-center gap-2 py-4 text-slate-500 text-sm">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading members...
+              </div>
+            ) : (
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                {members.map(member => (
+                  <div key={member.userId} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <span className="text-slate-800 truncate">
+                      {member.email}
+                      {member.userId === currentUserId && <span className="ml-1 text-slate-400">(you)</span>}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      {isOwner ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) => run(() => updateWorkspaceMemberRole(selectedId!, member.userId, e.target.value as WorkspaceRole), member.userId === currentUserId)}
+                          disabled={busy}
+                          className="px-2 py-1 border border-slate-300 rounded text-xs"
+                        >
+                          {WORKSPACE_ROLES.map(r => (
+                            <option key={r.value} value={r.value}>{r.label}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-xs text-slate-500">{WORKSPACE_ROLES.find(r => r.value === member.role)?.label}</span>
+                      )}
+                      {(isOwner || member.userId === currentUserId) && (
+                        <button
+                          onClick={() => handleRemove(member)}
+                          disabled={busy}
+                          title={member.userId === currentUserId ? 'Leave workspace' : 'Remove member'}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isOwner && (
+            <div className="mt-3">
+              <label className="block text-sm font-medium text-slate-700 mb-1">Add Member</label>
+              <div className="flex gap-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="colleague@example.com"
+                  className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                  className="px-2 py-2 border border-slate-300 rounded-lg text-sm"
+                >
+                  {WORKSPACE_ROLES.map(r => (
+                    <option key={r.value} value={r.value} title={r.description}>{r.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleInvite}
+                  disabled={busy || !inviteEmail.trim()}
+                  className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <UserPlus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+              <p className="text-xs text-slate-500 mt-1">
+                The person needs an account first. {WORKSPACE_ROLES.map(r => `${r.label}s: ${r.description.toLowerCase()}`).join('. ')}.
+              </p>
+            </div>
+            )}
+          </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ValuedCashFlow } from '../utils/xirr';
+import { BenchmarkSeries } from '../utils/benchmark';
+import { Period, PeriodCalculationOptions, PeriodResult, createPeriodCalculator, toValuedFlows } from '../utils/periodResults';
+import type { XIRRWorkerRequest, XIRRWorkerResponse } from '../workers/xirrWorker';
+
+interface FlowInput {
+  date: string;
+  amount: string;
+  description: string;
+  marketValue?: string;
+}
+
+interface CalculationProgress {
+  completed: number;
+  total: number;
+}
+
+const RECALCULATE_DELAY_MS = 200;
+
+function createWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('../workers/xirrWorker.ts', import.meta.url), { type: 'module' });
+  } catch (err) {
+    console.error('Unable to start XIRR worker, calculating on the main thread:', err);
+    return null;
+  }
+}
+
+export function usePeriodResults(
+  periods: Period[],
+  flows: FlowInput[],
+  benchmarks: BenchmarkSeries[],
+  options: PeriodCalculationOptions,
+  enabled: boolean
+) {
+  const [results, setResults] = useState<PeriodResult[]>([]);
+  const [calculating, setCalculating] = useState(false);
+  const [progress, setProgress] = useState<CalculationProgress | null>(null);
+  const [error, setError] = useState<string>('');
+  // Set when the worker dies, so the pending calculation is rerun on the main thread
+  const [workerFailed, setWorkerFailed] = useState(false);
+
+  const workerRef = useRef<Worker | null>(null);
+  const fallbackRef = useRef<ReturnType<typeof createPeriodCalculator> | null>(null);
+  const jobIdRef = useRef(0);
+  const postedContextRef = useRef<{ flows: ValuedCashFlow[]; benchmarks: BenchmarkSeries[] } | null>(null);
+
+  const valuedFlows = useMemo(() => toValuedFlows(flows), [flows]);
+  const { dayCount, mode, financeRate, reinvestmentRate } = options;
+
+  useEffect(() => {
+    const worker = createWorker();
+    workerRef.current = worker;
+    postedContextRef.current = null;
+
+    if (worker) {
+      worker.onmessage = (event: MessageEvent<XIRRWorkerResponse>) => {
+        const message = event.data;
+        // Anything from a superseded job is stale
+        if (message.jobId !== jobIdRef.current) return;
+
+        switch (message.type) {
+          case 'progress':
+            setProgress({ completed: message.completed, total: message.total });
+            break;
+          case 'result':
+            setResults(message.results);
+            setCalculating(false);
+            setProgress(null);
+            setError('');
+            break;
+          case 'error':
+            setCalculating(false);
+            setProgress(null);
+            setError(message.message);
+            break;
+        }
+      };
+
+      // A worker that fails to load or throws outside its own try/catch never answers,
+      // so drop it and calculate on the main thread from here on
+      const handleFailure = (reason: string) => {
+        console.error('XIRR worker failed, calculating on the main thread:', reason);
+        worker.terminate();
+        workerRef.current = null;
+        postedContextRef.current = null;
+        setError(`Background calculation stopped (${reason}); results are calculated on the main thread`);
+        setWorkerFailed(true);
+      };
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        handleFailure(event.message || 'the worker could not be loaded');
+      };
+      worker.onmessageerror = () => handleFailure('a message could not be read');
+    }
+
+    return () => {
+      worker?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const jobId = ++jobIdRef.current;
+    setCalculating(true);
+
+    // Debounced so typing in a period or flow only triggers one recalculation
+    const timer = setTimeout(() => {
+      const worker = workerRef.current;
+      const context = postedContextRef.current;
+      const contextChanged = !context || context.flows !== valuedFlows || context.benchmarks !== benchmarks;
+      const calculationOptions = { dayCount, mode, financeRate, reinvestmentRate };
+
+      if (worker) {
+        if (contextChanged) {
+          worker.postMessage({ type: 'context', flows: valuedFlows, benchmarks } satisfies XIRRWorkerRequest);
+          postedContextRef.current = { flows: valuedFlows, benchmarks };
+        }
+        worker.postMessage({ type: 'calculate', jobId, periods, options: calculationOptions } satisfies XIRRWorkerRequest);
+        return;
+      }
+
+      if (!fallbackRef.current) {
+        fallbackRef.current = createPeriodCalculator();
+      }
+      if (contextChanged) {
+        fallbackRef.current.setContext(valuedFlows, benchmarks);
+        postedContextRef.current = { flows: valuedFlows, benchmarks };
+      }
+      setResults(periods.map(p => fallbackRef.current!.calculate(p, calculationOptions)));
+      setCalculating(false);
+      // Clears the worker failure too: the main thread has produced every result
+      setError('');
+    }, RECALCULATE_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      workerRef.current?.postMessage({ type: 'cancel', jobId } satisfies XIRRWorkerRequest);
+    };
+  }, [enabled, periods, valuedFlows, benchmarks, dayCount, mode, financeRate, reinvestmentRate, workerFailed]);
+
+  return { results, calculating, progress, error };
+}
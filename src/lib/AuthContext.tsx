@@ -1,13 +1,20 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { User, AuthError } from '@supabase/supabase-js';
 import { supabase } from './supabase';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  // True after a session ends without the user signing out (e.g. the refresh token expired)
+  sessionExpired: boolean;
+  // True while the user is following a password reset link and must choose a new password
+  passwordRecovery: boolean;
   signUp: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signOut: () => Promise<void>;
+  resetPassword: (email: string) => Promise<{ error: AuthError | null }>;
+  updatePassword: (password: string) => Promise<{ error: AuthError | null }>;
+  dismissSessionExpired: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -15,15 +22,31 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+  const hadSession = useRef(false);
+  const signingOut = useRef(false);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
+      hadSession.current = !!session;
       setUser(session?.user ?? null);
       setLoading(false);
     });
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       (async () => {
+        if (event === 'SIGNED_OUT' && hadSession.current && !signingOut.current) {
+          setSessionExpired(true);
+        }
+        if (event === 'SIGNED_IN') {
+          setSessionExpired(false);
+        }
+        if (event === 'PASSWORD_RECOVERY') {
+          setPasswordRecovery(true);
+        }
+        signingOut.current = false;
+        hadSession.current = !!session;
         setUser(session?.user ?? null);
       })();
     });
@@ -42,11 +65,41 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signOut = async () => {
+    signingOut.current = true;
+    setPasswordRecovery(false);
     await supabase.auth.signOut();
   };
 
+  const resetPassword = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: window.location.origin });
+    return { error };
+  };
+
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (!error) {
+      setPasswordRecovery(false);
+    }
+    return { error };
+  };
+
+  const dismissSessionExpired = () => setSessionExpired(false);
+
   return (
-    <AuthContext.Provider value={{ user, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        loading,
+        sessionExpired,
+        passwordRecovery,
+        signUp,
+        signIn,
+        signOut,
+        resetPassword,
+        updatePassword,
+        dismissSessionExpired
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -8,6 +8,7 @@ export interface Database {
           name: string;
           description: string;
           period_values: any | null;
+          workspace_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -17,6 +18,7 @@ export interface Database {
           name: string;
           description?: string;
           period_values?: any | null;
+          workspace_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -26,9 +28,19 @@ export interface Database {
           name?: string;
           description?: string;
           period_values?: any | null;
+          workspace_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'datasets_workspace_id_fkey';
+            columns: ['workspace_id'];
+            isOneToOne: false;
+            referencedRelation: 'workspaces';
+            referencedColumns: ['id'];
+          }
+        ];
       };
       cash_flows: {
         Row: {
@@ -38,6 +50,7 @@ export interface Database {
           amount: number;
           description: string;
           sort_order: number;
+          market_value: number | null;
         };
         Insert: {
           id?: string;
@@ -46,6 +59,7 @@ export interface Database {
           amount: number;
           description?: string;
           sort_order?: number;
+          market_value?: number | null;
         };
         Update: {
           id?: string;
@@ -54,8 +68,175 @@ export interface Database {
           amount?: number;
           description?: string;
           sort_order?: number;
+          market_value?: number | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'cash_flows_dataset_id_fkey';
+            columns: ['dataset_id'];
+            isOneToOne: false;
+            referencedRelation: 'datasets';
+            referencedColumns: ['id'];
+          }
+        ];
       };
+      dataset_versions: {
+        Row: {
+          id: string;
+          dataset_id: string;
+          version: number;
+          flows: unknown;
+          period_values: unknown;
+          note: string;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          dataset_id: string;
+          version: number;
+          flows?: unknown;
+          period_values?: unknown;
+          note?: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          dataset_id?: string;
+          version?: number;
+          flows?: unknown;
+          period_values?: unknown;
+          note?: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'dataset_versions_dataset_id_fkey';
+            columns: ['dataset_id'];
+            isOneToOne: false;
+            referencedRelation: 'datasets';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      workspaces: {
+        Row: {
+          id: string;
+          name: string;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      workspace_members: {
+        Row: {
+          workspace_id: string;
+          user_id: string;
+          role: string;
+          created_at: string;
+        };
+        Insert: {
+          workspace_id: string;
+          user_id: string;
+          role: string;
+          created_at?: string;
+        };
+        Update: {
+          workspace_id?: string;
+          user_id?: string;
+          role?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'workspace_members_workspace_id_fkey';
+            columns: ['workspace_id'];
+            isOneToOne: false;
+            referencedRelation: 'workspaces';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      add_workspace_member: {
+        Args: { p_workspace_id: string; p_email: string; p_role: string };
+        Returns: undefined;
+      };
+      can_read_dataset: {
+        Args: { p_dataset_id: string };
+        Returns: boolean;
+      };
+      can_write_dataset: {
+        Args: { p_dataset_id: string };
+        Returns: boolean;
+      };
+      create_dataset: {
+        Args: {
+          p_user_id: string;
+          p_name: string;
+          p_description: string;
+          p_period_values: unknown;
+          p_workspace_id: string | null;
+          p_created_at: string | null;
+          p_updated_at: string | null;
+          p_flows: unknown;
+          p_note: string;
+          p_cash_flows: unknown;
+        };
+        Returns: Database['public']['Tables']['datasets']['Row'];
+      };
+      list_workspace_members: {
+        Args: { p_workspace_id: string };
+        Returns: {
+          user_id: string;
+          email: string;
+          role: string;
+          created_at: string;
+        }[];
+      };
+      move_dataset: {
+        Args: { p_dataset_id: string; p_workspace_id: string | null };
+        Returns: undefined;
+      };
+      save_dataset_version: {
+        Args: {
+          p_dataset_id: string;
+          p_flows: unknown;
+          p_period_values: unknown;
+          p_note: string;
+          p_description: string | null;
+          p_cash_flows: unknown;
+        };
+        Returns: number;
+      };
+      workspace_role: {
+        Args: { p_workspace_id: string };
+        Returns: string | null;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
     };
   };
 }
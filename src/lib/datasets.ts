@@ -0,0 +1,218 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type DatasetRow = Database['public']['Tables']['datasets']['Row'];
+type CashFlowInsert = Database['public']['Tables']['cash_flows']['Insert'];
+type VersionRow = Database['public']['Tables']['dataset_versions']['Row'];
+
+export interface DatasetSummary {
+  id: string;
+  // The creator; only they or a workspace owner can move the dataset
+  user_id: string;
+  name: string;
+  description: string;
+  workspace_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatasetFlow {
+  date: string;
+  amount: string;
+  description: string;
+  marketValue?: string;
+}
+
+export interface DatasetContent<P> {
+  flows: DatasetFlow[];
+  periodValues: P | null;
+}
+
+export interface DatasetVersion<P> extends DatasetContent<P> {
+  id: string;
+  version: number;
+  note: string;
+  created_at: string;
+}
+
+export interface SaveDatasetOptions {
+  // Keep the original timestamps when importing datasets created elsewhere
+  createdAt?: string;
+  updatedAt?: string;
+  note?: string;
+  workspaceId?: string | null;
+}
+
+// PostgREST caps responses at 1000 rows, so flows are read in pages
+const PAGE_SIZE = 1000;
+
+export function toError(action: string, error: { message: string } | null): Error {
+  return new Error(`Failed to ${action}${error ? `: ${error.message}` : ''}`);
+}
+
+const SUMMARY_COLUMNS = 'id, user_id, name, description, workspace_id, created_at, updated_at';
+
+// null lists the user's personal datasets; row-level security hides everyone else's
+export async function listDatasets(workspaceId: string | null): Promise<DatasetSummary[]> {
+  const query = supabase.from('datasets').select(SUMMARY_COLUMNS);
+  const { data, error } = await (workspaceId ? query.eq('workspace_id', workspaceId) : query.is('workspace_id', null))
+    .order('updated_at', { ascending: false });
+
+  if (error) throw toError('load datasets', error);
+  return (data || []).map(d => ({ ...d, description: d.description || '' }));
+}
+
+export async function fetchDataset<P>(datasetId: string): Promise<DatasetContent<P>> {
+  const { data: dataset, error } = await supabase
+    .from('datasets')
+    .select('period_values')
+    .eq('id', datasetId)
+    .maybeSingle();
+
+  if (error) throw toError('load dataset', error);
+  if (!dataset) throw new Error('Dataset not found');
+
+  const flows: DatasetFlow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error: flowsError } = await supabase
+      .from('cash_flows')
+      .select('date, amount, description, market_value, sort_order')
+      .eq('dataset_id', datasetId)
+      .order('sort_order', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (flowsError) throw toError('load cash flows', flowsError);
+
+    for (const row of page || []) {
+      flows.push({
+        date: row.date,
+        amount: row.amount.toString(),
+        description: row.description || '',
+        marketValue: row.market_value === null ? undefined : row.market_value.toString()
+      });
+    }
+
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  return { flows, periodValues: (dataset.period_values as P | null) ?? null };
+}
+
+function savedFlows(flows: DatasetFlow[]): DatasetFlow[] {
+  return flows.filter(f => f.date && f.amount);
+}
+
+// The database functions that save flows fill in dataset_id themselves
+function toFlowRows(flows: DatasetFlow[]): Omit<CashFlowInsert, 'dataset_id'>[] {
+  return flows.map((f, index) => ({
+    date: f.date,
+    amount: parseFloat(f.amount),
+    description: f.description,
+    market_value: f.marketValue ? parseFloat(f.marketValue) : null,
+    sort_order: index
+  }));
+}
+
+export async function findDatasetByName(name: string, workspaceId: string | null): Promise<DatasetSummary | null> {
+  const query = supabase.from('datasets').select(SUMMARY_COLUMNS).eq('name', name);
+  const { data, error } = await (workspaceId ? query.eq('workspace_id', workspaceId) : query.is('workspace_id', null))
+    .order('updated_at', { ascending: false })
+    .limit(1);
+
+  if (error) throw toError('look up dataset', error);
+  const dataset = data?.[0];
+  return dataset ? { ...dataset, description: dataset.description || '' } : null;
+}
+
+/**
+ * Creates a dataset with its flows and version 1. create_dataset does all of it in one
+ * transaction, so a failed save never leaves a dataset behind.
+ */
+export async function saveDataset<P>(
+  userId: string,
+  name: string,
+  description: string,
+  content: DatasetContent<P>,
+  options: SaveDatasetOptions = {}
+): Promise<DatasetRow> {
+  const flows = savedFlows(content.flows);
+  const { data: dataset, error } = await supabase.rpc('create_dataset', {
+    p_user_id: userId,
+    p_name: name,
+    p_description: description,
+    p_period_values: content.periodValues,
+    p_workspace_id: options.workspaceId ?? null,
+    p_created_at: options.createdAt ?? null,
+    p_updated_at: options.updatedAt ?? null,
+    p_flows: flows,
+    p_note: options.note ?? 'Created',
+    p_cash_flows: toFlowRows(flows)
+  });
+
+  if (error || !dataset) throw toError('save dataset', error);
+  return dataset;
+}
+
+/**
+ * Replaces a dataset's flows and period values and records the result as the next version.
+ * save_dataset_version does all of it in one transaction, so a failed save leaves the dataset
+ * and its history as they were. Returns the new version number.
+ */
+export async function saveDatasetVersion<P>(
+  datasetId: string,
+  content: DatasetContent<P>,
+  note: string,
+  description?: string
+): Promise<number> {
+  const flows = savedFlows(content.flows);
+  const { data: version, error } = await supabase.rpc('save_dataset_version', {
+    p_dataset_id: datasetId,
+    p_flows: flows,
+    p_period_values: content.periodValues,
+    p_note: note,
+    p_description: description ?? null,
+    p_cash_flows: toFlowRows(flows)
+  });
+
+  if (error || version === null) throw toError('save version', error);
+  return version;
+}
+
+export async function listDatasetVersions<P>(datasetId: string): Promise<DatasetVersion<P>[]> {
+  const { data, error } = await supabase
+    .from('dataset_versions')
+    .select('id, version, note, created_at, flows, period_values')
+    .eq('dataset_id', datasetId)
+    .order('version', { ascending: false });
+
+  if (error) throw toError('load versions', error);
+  return (data || []).map((v: Pick<VersionRow, 'id' | 'version' | 'note' | 'created_at' | 'flows' | 'period_values'>) => ({
+    id: v.id,
+    version: v.version,
+    note: v.note || '',
+    created_at: v.created_at,
+    flows: (v.flows as DatasetFlow[] | null) || [],
+    periodValues: (v.period_values as P | null) ?? null
+  }));
+}
+
+export async function restoreDatasetVersion<P>(datasetId: string, version: DatasetVersion<P>): Promise<number> {
+  return saveDatasetVersion(
+    datasetId,
+    { flows: version.flows, periodValues: version.periodValues },
+    `Restored from version ${version.version}`
+  );
+}
+
+// Moving a dataset into a workspace shares it with every member; null returns it to its
+// creator's personal datasets, which a workspace owner may do for someone else's dataset
+export async function moveDataset(datasetId: string, workspaceId: string | null): Promise<void> {
+  const { error } = await supabase.rpc('move_dataset', { p_dataset_id: datasetId, p_workspace_id: workspaceId });
+  if (error) throw toError('share dataset', error);
+}
+
+export async function deleteDataset(datasetId: string): Promise<void> {
+  // cash_flows rows are removed by ON DELETE CASCADE
+  const { error } = await supabase.from('datasets').delete().eq('id', datasetId);
+  if (error) throw toError('delete dataset', error);
+}
@@ -0,0 +1,138 @@
+import { DatasetFlow, DatasetSummary, saveDataset } from './datasets';
+
+// Key used by DatasetManager before datasets moved to Supabase
+export const LOCAL_DATASETS_KEY = 'irr_datasets';
+
+export interface MigrationMarker {
+  at: string;
+  userId: string;
+  datasetId: string;
+}
+
+export interface LocalDataset<P> {
+  id: string;
+  name: string;
+  description: string;
+  created_at: string;
+  updated_at: string;
+  flows: DatasetFlow[];
+  period_values: P | null;
+  // Set once the dataset has been uploaded, so it is never uploaded twice
+  migrated?: MigrationMarker;
+  // Users who left the dataset unchecked; it is still offered to anyone else signing in here
+  dismissedBy?: string[];
+}
+
+export interface MigrationCandidate<P> {
+  dataset: LocalDataset<P>;
+  flowCount: number;
+  // Names are compared case-insensitively; a conflict is not uploaded unless the user asks for it
+  conflict: boolean;
+}
+
+export interface MigrationOutcome {
+  uploaded: string[];
+  skipped: string[];
+  failed: { name: string; error: string }[];
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+function readLocalDatasets<P>(): LocalDataset<P>[] {
+  const stored = localStorage.getItem(LOCAL_DATASETS_KEY);
+  if (!stored) return [];
+
+  try {
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    // Earlier builds marked unchecked datasets as migrated (without a datasetId) for every
+    // account; read those as dismissed by the user who left them unchecked
+    return parsed.map((d: LocalDataset<P>) =>
+      d.migrated && !d.migrated.datasetId
+        ? { ...d, migrated: undefined, dismissedBy: [...(d.dismissedBy || []), d.migrated.userId] }
+        : d
+    );
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalDatasets<P>(datasets: LocalDataset<P>[]) {
+  localStorage.setItem(LOCAL_DATASETS_KEY, JSON.stringify(datasets));
+}
+
+function isOfferedTo<P>(dataset: LocalDataset<P>, userId: string): boolean {
+  return !dataset.migrated && !(dataset.dismissedBy || []).includes(userId);
+}
+
+export function hasUnmigratedLocalDatasets(userId: string): boolean {
+  return readLocalDatasets().some(d => isOfferedTo(d, userId));
+}
+
+export function findMigrationCandidates<P>(userId: string, cloudDatasets: DatasetSummary[]): MigrationCandidate<P>[] {
+  const cloudNames = new Set(cloudDatasets.map(d => normalizeName(d.name)));
+  const seen = new Set<string>();
+
+  return readLocalDatasets<P>()
+    .filter(d => isOfferedTo(d, userId))
+    .map(dataset => {
+      const name = normalizeName(dataset.name || '');
+      // Two local datasets with the same name conflict with each other as well
+      const conflict = cloudNames.has(name) || seen.has(name);
+      seen.add(name);
+      return {
+        dataset,
+        flowCount: (dataset.flows || []).filter(f => f.date && f.amount).length,
+        conflict
+      };
+    });
+}
+
+// Marked one at a time so closing the tab mid-migration never uploads a dataset twice
+function markMigrated(id: string, marker: MigrationMarker) {
+  writeLocalDatasets(readLocalDatasets().map(d => (d.id === id ? { ...d, migrated: marker } : d)));
+}
+
+function markDismissed(id: string, userId: string) {
+  writeLocalDatasets(readLocalDatasets().map(d =>
+    d.id === id && !(d.dismissedBy || []).includes(userId) ? { ...d, dismissedBy: [...(d.dismissedBy || []), userId] } : d
+  ));
+}
+
+export async function migrateLocalDatasets<P>(
+  userId: string,
+  candidates: MigrationCandidate<P>[],
+  selectedIds: Set<string>,
+  onProgress?: (done: number, total: number) => void
+): Promise<MigrationOutcome> {
+  const outcome: MigrationOutcome = { uploaded: [], skipped: [], failed: [] };
+
+  for (let i = 0; i < candidates.length; i++) {
+    const { dataset } = candidates[i];
+    const at = new Date().toISOString();
+
+    if (!selectedIds.has(dataset.id)) {
+      outcome.skipped.push(dataset.name);
+      markDismissed(dataset.id, userId);
+    } else {
+      try {
+        const saved = await saveDataset<P>(
+          userId,
+          dataset.name,
+          dataset.description || '',
+          { flows: dataset.flows || [], periodValues: dataset.period_values ?? null },
+          { createdAt: dataset.created_at, updatedAt: dataset.updated_at, note: 'Migrated from browser storage' }
+        );
+        outcome.uploaded.push(dataset.name);
+        markMigrated(dataset.id, { at, userId, datasetId: saved.id });
+      } catch (err) {
+        // Failed datasets stay unmarked so the next sign-in offers them again
+        outcome.failed.push({ name: dataset.name, error: err instanceof Error ? err.message : 'Upload failed' });
+      }
+    }
+
+    onProgress?.(i + 1, candidates.length);
+  }
+
+  return outcome;
+}
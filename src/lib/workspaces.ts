@@ -0,0 +1,84 @@
+import { supabase } from './supabase';
+import { toError } from './datasets';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  role: WorkspaceRole;
+}
+
+export const WORKSPACE_ROLES: { value: WorkspaceRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Manage members and all datasets' },
+  { value: 'editor', label: 'Editor', description: 'Save, restore and delete datasets' },
+  { value: 'viewer', label: 'Viewer', description: 'Load datasets only' }
+];
+
+export function canEdit(role: WorkspaceRole | null): boolean {
+  // Personal datasets (no workspace) are always editable by their owner
+  return role === null || role === 'owner' || role === 'editor';
+}
+
+export async function listWorkspaces(userId: string): Promise<Workspace[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(id, name)')
+    .eq('user_id', userId);
+
+  if (error) throw toError('load workspaces', error);
+
+  return (data || [])
+    .filter(m => m.workspaces)
+    .map(m => ({ id: m.workspaces!.id, name: m.workspaces!.name, role: m.role as WorkspaceRole }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function createWorkspace(name: string): Promise<Workspace> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .insert({ name })
+    .select('id, name')
+    .single();
+
+  if (error || !data) throw toError('create workspace', error);
+  return { ...data, role: 'owner' };
+}
+
+export async function listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const { data, error } = await supabase.rpc('list_workspace_members', { p_workspace_id: workspaceId });
+
+  if (error) throw toError('load members', error);
+  return (data || []).map(m => ({ userId: m.user_id, email: m.email, role: m.role as WorkspaceRole }));
+}
+
+export async function addWorkspaceMember(workspaceId: string, email: string, role: WorkspaceRole): Promise<void> {
+  const { error } = await supabase.rpc('add_workspace_member', { p_workspace_id: workspaceId, p_email: email, p_role: role });
+  if (error) throw toError('add member', error);
+}
+
+export async function updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+  const { error } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+
+  if (error) throw toError('change role', error);
+}
+
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+
+  if (error) throw toError('remove member', error);
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { APIRequest, DEFAULT_NAN_VALUE, evaluateAPIRequest, requestNanValue, toWindowResult } from './apiBatch';
+import { calculateXIRR } from './xirr';
+import { CalendarDate } from './calendarDate';
+
+const d = (text: string) => text as CalendarDate;
+
+// NPV is zero at about 6.19%, 69.15% and 232.05%; Excel's guess of 10% lands on the first
+const MULTI_ROOT = [
+  { date: d('2020-01-01'), amount: -10 },
+  { date: d('2021-01-01'), amount: 61 },
+  { date: d('2022-01-01'), amount: -110 },
+  { date: d('2023-01-01'), amount: 60 }
+];
+
+describe('toWindowResult', () => {
+  it("reports Excel's root even when Brent lands nearer zero NPV on another", () => {
+    const outcome = calculateXIRR(MULTI_ROOT, { mode: 'excel' });
+    if (!outcome.ok) throw new Error(outcome.error.message);
+    const result = {
+      ...outcome.value,
+      newtonRaphson: { ...outcome.value.newtonRaphson, finalNPV: 1e-6 },
+      brent: { ...outcome.value.brent, finalNPV: 1e-9 }
+    };
+
+    const window = toWindowResult('w1', result);
+    expect(result.hasDifference).toBe(true);
+    expect(window.xirr).toBeCloseTo(0.0619166, 6);
+    expect(window.iterations).toBe(result.newtonRaphson.iterations);
+  });
+
+  it('reports the cumulative return for a window that is not annualized', () => {
+    const outcome = calculateXIRR(
+      [
+        { date: d('2024-01-01'), amount: -100 },
+        { date: d('2024-07-01'), amount: 105 }
+      ],
+      { annualization: 'never' }
+    );
+    if (!outcome.ok) throw new Error(outcome.error.message);
+
+    expect(toWindowResult('w1', outcome.value).xirr).toBeCloseTo(0.05, 9);
+  });
+});
+
+// A 100 start value, one distribution and a 90 end value over a calendar year
+const REQUEST: APIRequest = {
+  'request-id': 'r1',
+  calculations: [
+    {
+      'calc-id': 'c1',
+      dates: [20230701],
+      flows: [20],
+      windows: [
+        {
+          'window-id': 'w1',
+          'start-date': 20230101,
+          'start-market-value': 100,
+          'end-date': 20240101,
+          'end-market-value': 90
+        }
+      ]
+    }
+  ]
+};
+
+describe('evaluateAPIRequest', () => {
+  it('adds MIRR to each window when finance and reinvestment rates are given', () => {
+    const [window] = evaluateAPIRequest(REQUEST, { financeRate: 0.1, reinvestmentRate: 0.1 }).results[0].windows;
+    const expected = (20 * Math.pow(1.1, 184 / 365) + 90) / 100 - 1;
+
+    expect(window.mirr).toBeCloseTo(expected, 9);
+  });
+
+  it('adds fund multiples with the end market value as the ending NAV', () => {
+    const [window] = evaluateAPIRequest(REQUEST).results[0].windows;
+
+    expect(window['paid-in-capital']).toBe(100);
+    expect(window.dpi).toBe(0.2);
+    expect(window.rvpi).toBe(0.9);
+    expect(window.tvpi).toBe(1.1);
+  });
+
+  it('reports the nan-value and the reason for windows that fail', () => {
+    const [calc] = REQUEST.calculations;
+    const request: APIRequest = {
+      'nan-value': -1,
+      calculations: [
+        { ...calc, 'calc-id': 'bad-date', dates: [20230230], flows: [20] },
+        {
+          ...calc,
+          'calc-id': 'no-flows',
+          windows: [{ ...calc.windows[0], 'start-market-value': 0, 'end-market-value': 0 }]
+        }
+      ]
+    };
+
+    const [badDate, noFlows] = evaluateAPIRequest(request).results.map(r => r.windows[0]);
+    expect(badDate).toEqual({
+      'window-id': 'w1',
+      converged: false,
+      iterations: 0,
+      xirr: -1,
+      error: 'Invalid date 20230230; expected YYYYMMDD'
+    });
+    expect(noFlows).toMatchObject({ converged: false, xirr: -1, error: 'At least two cash flows must have a non-zero amount' });
+  });
+
+  it('leaves MIRR out without rates', () => {
+    const [window] = evaluateAPIRequest(REQUEST).results[0].windows;
+    expect(window.mirr).toBeUndefined();
+  });
+});
+
+describe('requestNanValue', () => {
+  it('falls back to the default when nan-value is missing or not a number', () => {
+    expect(requestNanValue({ 'nan-value': -1, calculations: [] })).toBe(-1);
+    expect(requestNanValue({ calculations: [] })).toBe(DEFAULT_NAN_VALUE);
+    expect(requestNanValue(JSON.parse('{"nan-value": "NaN", "calculations": []}'))).toBe(DEFAULT_NAN_VALUE);
+  });
+});
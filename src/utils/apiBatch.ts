@@ -0,0 +1,203 @@
+import { CashFlow, MethodResult, XIRROptions, XIRRResult, buildPeriodCashFlows, calculateMultiples, calculateXIRR, calculateXMIRR, parseAnnualizationPolicy } from './xirr';
+import { parseDate } from './localeFormats';
+import { CalendarDate } from './calendarDate';
+
+export const DEFAULT_NAN_VALUE = -999.99;
+
+export interface APIWindow {
+  'window-id': string;
+  'start-date': number;
+  'start-market-value': number;
+  'end-date': number;
+  'end-market-value': number;
+  annualized?: string;
+}
+
+export interface APICalculation {
+  'calc-id': string;
+  dates: number[];
+  flows: number[];
+  windows: APIWindow[];
+}
+
+export interface APIRequest {
+  'request-id'?: string;
+  'nan-value'?: number;
+  calculations: APICalculation[];
+}
+
+// MIRR is only reported when both rates are given, as decimals (0.1 for 10%)
+export interface APIBatchOptions extends XIRROptions {
+  financeRate?: number;
+  reinvestmentRate?: number;
+}
+
+export interface XIRRWindowResult {
+  'window-id': string;
+  converged: boolean;
+  iterations: number;
+  xirr: number;
+  mirr?: number;
+  'paid-in-capital'?: number;
+  dpi?: number;
+  rvpi?: number;
+  tvpi?: number;
+  error?: string;
+}
+
+// Exports that report more per window, such as the multi-period PME, pass their own window type
+export interface XIRRCalcResult<W extends XIRRWindowResult = XIRRWindowResult> {
+  'calc-id': string;
+  windows: W[];
+}
+
+export interface XIRRResultsDocument<W extends XIRRWindowResult = XIRRWindowResult> {
+  type: 'xirr-results';
+  'calc-time': string;
+  'request-id': string;
+  results: XIRRCalcResult<W>[];
+}
+
+// The value failed windows report: the request's nan-value when it is a number
+export function requestNanValue(request: APIRequest): number {
+  return typeof request['nan-value'] === 'number' ? request['nan-value'] : DEFAULT_NAN_VALUE;
+}
+
+// API dates are YYYYMMDD numbers; anything else, such as 20240230, comes back as ''
+export function parseAPIDate(dateNum: number | string): CalendarDate | '' {
+  return parseDate(String(dateNum), 'yyyymmdd');
+}
+
+// The method whose rate calculateXIRR reported: always Newton-Raphson (Excel's XIRR) in Excel mode
+export function selectMethodResult(result: XIRRResult): MethodResult {
+  return result.newtonRaphson.rate === result.xirr ? result.newtonRaphson : result.brent;
+}
+
+export function toWindowResult(
+  windowId: string,
+  result: XIRRResult | null,
+  nanValue: number = DEFAULT_NAN_VALUE,
+  error?: string
+): XIRRWindowResult {
+  if (error || !result) {
+    return {
+      'window-id': windowId,
+      converged: false,
+      error: error || 'Unable to calculate XIRR',
+      iterations: 0,
+      xirr: nanValue
+    };
+  }
+
+  const selectedMethod = selectMethodResult(result);
+
+  if (!selectedMethod.converged || !isFinite(result.reportedReturn)) {
+    return {
+      'window-id': windowId,
+      converged: false,
+      error: 'XIRR did not converge',
+      iterations: selectedMethod.iterations,
+      xirr: nanValue
+    };
+  }
+
+  // reportedReturn is the cumulative return for sub-period windows the policy doesn't annualize
+  return {
+    'window-id': windowId,
+    converged: selectedMethod.converged,
+    iterations: selectedMethod.iterations,
+    xirr: parseFloat(result.reportedReturn.toFixed(15))
+  };
+}
+
+function evaluateCalculation(
+  calc: APICalculation,
+  nanValue: number,
+  { financeRate, reinvestmentRate, ...options }: APIBatchOptions
+): XIRRCalcResult {
+  const calcId = calc['calc-id'];
+  const windows = Array.isArray(calc.windows) ? calc.windows : [];
+
+  let calcError: string | undefined;
+  if (!Array.isArray(calc.dates) || !Array.isArray(calc.flows)) {
+    calcError = 'Missing dates or flows';
+  } else if (calc.dates.length !== calc.flows.length) {
+    calcError = 'Dates and flows arrays must have the same length';
+  } else {
+    const invalid = calc.dates.find(date => !parseAPIDate(date));
+    if (invalid !== undefined) calcError = `Invalid date ${invalid}; expected YYYYMMDD`;
+  }
+
+  if (calcError) {
+    return {
+      'calc-id': calcId,
+      windows: windows.map(w => toWindowResult(String(w['window-id']), null, nanValue, calcError))
+    };
+  }
+
+  const cashFlows: CashFlow[] = calc.dates.flatMap((date, i) => {
+    const calendarDate = parseAPIDate(date);
+    return calendarDate ? [{ date: calendarDate, amount: calc.flows[i] }] : [];
+  });
+
+  return {
+    'calc-id': calcId,
+    windows: windows.map(window => {
+      const windowId = String(window['window-id']);
+      const startDate = parseAPIDate(window['start-date']);
+      const endDate = parseAPIDate(window['end-date']);
+      const startValue = Number(window['start-market-value']);
+      const endValue = Number(window['end-market-value']);
+
+      if (!startDate || !endDate) {
+        return toWindowResult(windowId, null, nanValue, 'Invalid start or end date');
+      }
+      if (isNaN(startValue) || isNaN(endValue)) {
+        return toWindowResult(windowId, null, nanValue, 'Invalid start or end market value');
+      }
+
+      const periodFlows = buildPeriodCashFlows(cashFlows, startDate, endDate, startValue, endValue);
+      const outcome = calculateXIRR(periodFlows, {
+        ...options,
+        annualization: parseAnnualizationPolicy(window.annualized) ?? options.annualization
+      });
+      const windowResult = outcome.ok
+        ? toWindowResult(windowId, outcome.value, nanValue)
+        : toWindowResult(windowId, null, nanValue, outcome.error.message);
+
+      // Like the multi-period export, MIRR is reported even when XIRR itself fails
+      const mirr = financeRate !== undefined && reinvestmentRate !== undefined
+        ? calculateXMIRR(periodFlows, financeRate, reinvestmentRate, options.dayCount)
+        : null;
+      // The end market value is the last period flow and plays the role of the ending NAV
+      const multiples = calculateMultiples(periodFlows.slice(0, -1), periodFlows[periodFlows.length - 1].amount);
+
+      return {
+        ...windowResult,
+        ...(mirr && { mirr: parseFloat(mirr.mirr.toFixed(15)) }),
+        ...(multiples && {
+          'paid-in-capital': multiples.paidInCapital,
+          dpi: parseFloat(multiples.dpi.toFixed(6)),
+          rvpi: parseFloat(multiples.rvpi.toFixed(6)),
+          tvpi: parseFloat(multiples.tvpi.toFixed(6))
+        })
+      };
+    })
+  };
+}
+
+export function evaluateAPIRequest(request: APIRequest, options: APIBatchOptions = {}): XIRRResultsDocument {
+  const startTime = Date.now();
+  const nanValue = requestNanValue(request);
+
+  const results = request.calculations
+    .filter(calc => calc && calc['calc-id'])
+    .map(calc => evaluateCalculation(calc, nanValue, options));
+
+  return {
+    type: 'xirr-results',
+    'calc-time': `${Date.now() - startTime} ms`,
+    'request-id': request['request-id'] || `${Date.now()}-user-generated`,
+    results
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { BenchmarkSeries, calculatePME, indexLevelOn, isBenchmarkCSV, parseBenchmarkCSV } from './benchmark';
+import { calculateMultiples, calculateXIRR } from './xirr';
+import { CalendarDate } from './calendarDate';
+
+const d = (text: string) => text as CalendarDate;
+
+// A contribution, a distribution a year later and the NAV after two years
+const FLOWS = [
+  { date: d('2021-01-01'), amount: -100 },
+  { date: d('2022-01-01'), amount: 20 }
+];
+const NAV = 110;
+const END = d('2023-01-01');
+
+// Grows 10% a year, with an extra mid-year level
+const RISING: BenchmarkSeries = {
+  name: 'Rising',
+  levels: [
+    { date: d('2021-01-01'), level: 100 },
+    { date: d('2021-07-01'), level: 105 },
+    { date: d('2022-01-01'), level: 110 },
+    { date: d('2023-01-01'), level: 121 }
+  ]
+};
+
+const FLAT: BenchmarkSeries = {
+  name: 'Flat',
+  levels: [
+    { date: d('2021-01-01'), level: 100 },
+    { date: d('2023-01-01'), level: 100 }
+  ]
+};
+
+function irr(flows: { date: CalendarDate; amount: number }[]): number {
+  const outcome = calculateXIRR(flows, { annualization: 'always' });
+  if (!outcome.ok) throw new Error(outcome.error.message);
+  return outcome.value.xirr;
+}
+
+describe('indexLevelOn', () => {
+  it('takes the last level on or before the date', () => {
+    expect(indexLevelOn(RISING, d('2021-01-01'))).toBe(100);
+    expect(indexLevelOn(RISING, d('2021-03-15'))).toBe(100);
+    expect(indexLevelOn(RISING, d('2021-07-01'))).toBe(105);
+    expect(indexLevelOn(RISING, d('2022-12-31'))).toBe(110);
+  });
+
+  it('returns null outside the series', () => {
+    expect(indexLevelOn(RISING, d('2020-12-31'))).toBeNull();
+    expect(indexLevelOn(RISING, d('2023-01-02'))).toBeNull();
+    expect(indexLevelOn({ name: 'Empty', levels: [] }, d('2021-01-01'))).toBeNull();
+  });
+});
+
+describe('calculatePME', () => {
+  it('compounds each flow by the index to the end date', () => {
+    const pme = calculatePME(FLOWS, NAV, END, RISING)!;
+
+    expect(pme.indexReturn).toBeCloseTo(0.21, 12);
+    // (20 × 121/110 + 110) / (100 × 121/100) = 132 / 121
+    expect(pme.ksPME).toBeCloseTo(132 / 121, 12);
+    // 121 - 22 = 99, and -100/+20/+99 returns exactly the index's 10% a year
+    expect(pme.longNickelsNAV).toBeCloseTo(99, 9);
+    expect(pme.longNickelsIRR).toBeCloseTo(0.1, 9);
+    // A constant 10% index divides 1 + IRR by 1.1
+    expect(pme.directAlpha).toBeCloseTo((1 + irr([...FLOWS, { date: END, amount: NAV }])) / 1.1 - 1, 9);
+  });
+
+  it('matches TVPI and the IRR against a flat index', () => {
+    const pme = calculatePME(FLOWS, NAV, END, FLAT)!;
+
+    expect(pme.ksPME).toBeCloseTo(calculateMultiples(FLOWS, NAV)!.tvpi, 12);
+    expect(pme.directAlpha).toBeCloseTo(irr([...FLOWS, { date: END, amount: NAV }]), 12);
+  });
+
+  it('needs the series to cover every flow and the end date', () => {
+    expect(calculatePME([{ date: d('2020-06-30'), amount: -100 }], NAV, END, RISING)).toBeNull();
+    expect(calculatePME(FLOWS, NAV, d('2023-06-30'), RISING)).toBeNull();
+  });
+});
+
+describe('parseBenchmarkCSV', () => {
+  const csv = 'Date,Close\n2021-07-01,"1,050.50"\n2021-01-01,1000\nnot a date,5\n2022-01-01,0';
+
+  it('recognises a benchmark header', () => {
+    expect(isBenchmarkCSV(csv)).toBe(true);
+    expect(isBenchmarkCSV('Date,Amount\n2021-01-01,-100')).toBe(false);
+  });
+
+  it('sorts the levels by date and drops the header, bad rows and non-positive levels', () => {
+    const { series } = parseBenchmarkCSV('Index', csv);
+
+    expect(series.name).toBe('Index');
+    expect(series.levels).toEqual([
+      { date: '2021-01-01', level: 1000 },
+      { date: '2021-07-01', level: 1050.5 }
+    ]);
+  });
+});
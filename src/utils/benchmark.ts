@@ -0,0 +1,148 @@
+import { CashFlow, DayCountConvention, calculateXIRR } from './xirr';
+import { CalendarDate, compareDates } from './calendarDate';
+import { detectDelimiter, readAllRecords, readRecords } from './csvImport';
+import { ambiguityWarnings, detectDateFormat, detectNumberFormat, parseAmount, parseDate } from './localeFormats';
+
+export interface IndexLevel {
+  date: CalendarDate;
+  level: number;
+}
+
+export interface BenchmarkSeries {
+  name: string;
+  levels: IndexLevel[];
+}
+
+export interface BenchmarkImport {
+  series: BenchmarkSeries;
+  // Set when the date or number format could be read more than one way
+  warnings: string[];
+}
+
+export interface PMEResult {
+  benchmark: string;
+  indexReturn: number;
+  ksPME: number;
+  longNickelsIRR: number | null;
+  longNickelsNAV: number;
+  directAlpha: number | null;
+}
+
+export function isBenchmarkCSV(csvText: string): boolean {
+  const header = readRecords(csvText, detectDelimiter(csvText)).next().value?.fields;
+  return !!header && /^date$/i.test(header[0]) && /^(index|level|close|price|value)/i.test(header[1] || '');
+}
+
+export function parseBenchmarkCSV(name: string, csvText: string): BenchmarkImport {
+  const records = readAllRecords(csvText, detectDelimiter(csvText)).filter(r => r.fields.length >= 2);
+  const dateFormat = detectDateFormat(records.map(r => r.fields[0]));
+  const numberFormat = detectNumberFormat(records.map(r => r.fields[1]));
+  const levels: IndexLevel[] = [];
+
+  for (const { fields } of records) {
+    const date = parseDate(fields[0], dateFormat.format);
+    const level = parseAmount(fields[1], numberFormat.format);
+
+    // Header and malformed rows fall out here
+    if (date && level !== null && level > 0) {
+      levels.push({ date, level });
+    }
+  }
+
+  return {
+    series: {
+      name,
+      levels: levels.sort((a, b) => compareDates(a.date, b.date))
+    },
+    warnings: ambiguityWarnings(dateFormat, numberFormat)
+  };
+}
+
+export function indexLevelOn(series: BenchmarkSeries, date: CalendarDate): number | null {
+  const { levels } = series;
+  if (levels.length === 0 || date < levels[0].date || date > levels[levels.length - 1].date) {
+    return null;
+  }
+
+  // Last published level on or before the date
+  let lo = 0;
+  let hi = levels.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (levels[mid].date <= date) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return levels[lo].level;
+}
+
+export function calculatePME(
+  cashFlows: CashFlow[],
+  endingNAV: number,
+  endDate: CalendarDate,
+  series: BenchmarkSeries,
+  dayCount: DayCountConvention = 'ACT/365F'
+): PMEResult | null {
+  // cashFlows are contributions (negative) and distributions (positive), excluding the ending NAV
+  const flows = [...cashFlows]
+    .filter(f => f.amount !== 0)
+    .sort((a, b) => compareDates(a.date, b.date));
+
+  const endLevel = indexLevelOn(series, endDate);
+  if (flows.length === 0 || endLevel === null) {
+    return null;
+  }
+
+  const growthFactors: number[] = [];
+  for (const flow of flows) {
+    const level = indexLevelOn(series, flow.date);
+    if (level === null) return null;
+    growthFactors.push(endLevel / level);
+  }
+
+  // Kaplan-Schoar: index-compounded value out over index-compounded value in
+  let fvContributions = 0;
+  let fvDistributions = 0;
+  flows.forEach((flow, i) => {
+    if (flow.amount < 0) {
+      fvContributions += -flow.amount * growthFactors[i];
+    } else {
+      fvDistributions += flow.amount * growthFactors[i];
+    }
+  });
+
+  if (fvContributions === 0) {
+    return null;
+  }
+
+  const ksPME = (fvDistributions + endingNAV) / fvContributions;
+
+  // Long-Nickels: mirror the flows into the index and take the IRR with the index NAV
+  const longNickelsNAV = fvContributions - fvDistributions;
+  const longNickelsResult = calculateXIRR(
+    [...flows, { date: endDate, amount: longNickelsNAV }],
+    { annualization: 'always', dayCount }
+  );
+
+  // Direct Alpha: IRR of the flows after compounding each one to the end date by the index
+  const directAlphaResult = calculateXIRR(
+    [
+      ...flows.map((flow, i) => ({ date: flow.date, amount: flow.amount * growthFactors[i] })),
+      { date: endDate, amount: endingNAV }
+    ],
+    { annualization: 'always', dayCount }
+  );
+
+  const startLevel = indexLevelOn(series, flows[0].date)!;
+
+  return {
+    benchmark: series.name,
+    indexReturn: endLevel / startLevel - 1,
+    ksPME,
+    longNickelsIRR: longNickelsResult.ok ? longNickelsResult.value.xirr : null,
+    longNickelsNAV,
+    directAlpha: directAlphaResult.ok ? directAlphaResult.value.xirr : null
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CalendarDate,
+  addDays,
+  addMonths,
+  addYears,
+  daysBetween,
+  formatCalendarDate,
+  fromDayNumber,
+  parseCalendarDate,
+  toDayNumber,
+  today
+} from './calendarDate';
+
+// The test script runs this suite under several TZ values; none of these results may depend on it
+const d = (text: string) => text as CalendarDate;
+
+describe('parseCalendarDate', () => {
+  it.each(['2024-02-29', '2024-03-31', '1900-01-01', '2099-12-31'])('accepts %s', text => {
+    expect(parseCalendarDate(text)).toBe(text);
+  });
+
+  it.each(['2023-02-29', '2024-04-31', '2024-13-01', '2024-3-1', '2024-03-10T00:00:00Z', ''])('rejects %s', text => {
+    expect(parseCalendarDate(text)).toBeNull();
+  });
+});
+
+describe('date arithmetic', () => {
+  it.each([
+    ['2024-03-31', -1, '2024-02-29'],
+    ['2024-01-31', 1, '2024-02-29'],
+    ['2023-02-28', 12, '2024-02-29'],
+    ['2024-11-30', 3, '2025-02-28'],
+    ['2024-03-15', -15, '2022-12-15']
+  ])('addMonths(%s, %i) is %s', (date, months, expected) => {
+    expect(addMonths(d(date), months)).toBe(expected);
+  });
+
+  it.each([
+    ['2024-02-29', 1, '2025-03-01'],
+    ['2024-02-29', 4, '2028-02-29'],
+    ['2023-03-31', -1, '2022-03-31']
+  ])('addYears(%s, %i) is %s', (date, years, expected) => {
+    expect(addYears(d(date), years)).toBe(expected);
+  });
+
+  it('counts whole days across daylight saving changes', () => {
+    expect(daysBetween(d('2024-03-09'), d('2024-03-11'))).toBe(2);
+    expect(daysBetween(d('2024-03-30'), d('2024-04-01'))).toBe(2);
+    expect(daysBetween(d('2024-10-26'), d('2024-11-04'))).toBe(9);
+    expect(daysBetween(d('2024-11-04'), d('2024-10-26'))).toBe(-9);
+  });
+
+  it('steps a day at a time through a whole leap year', () => {
+    let date = d('2024-01-01');
+    for (let i = 0; i < 366; i++) date = addDays(date, 1);
+    expect(date).toBe('2025-01-01');
+    expect(fromDayNumber(toDayNumber(d('2024-03-10')))).toBe('2024-03-10');
+  });
+});
+
+describe('today', () => {
+  it('is the local calendar day', () => {
+    const before = new Date();
+    const result = today();
+    const after = new Date();
+    const local = (date: Date) =>
+      `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+    // Either side of midnight if the clock ticks over mid-test
+    expect([local(before), local(after)]).toContain(result);
+  });
+});
+
+describe('formatCalendarDate', () => {
+  it('shows the same day in every timezone', () => {
+    expect(formatCalendarDate(d('2024-01-01'), { year: 'numeric', month: 'short', day: 'numeric' }, 'en-US')).toBe('Jan 1, 2024');
+    expect(formatCalendarDate(d('2024-12-31'), { year: 'numeric', month: '2-digit', day: '2-digit' }, 'en-GB')).toBe('31/12/2024');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * A day on the calendar with no time of day or timezone, held as a YYYY-MM-DD string. Cash flow
+ * and period dates are calendar dates: a flow on 2024-03-31 is on the 31st for every user, so
+ * none of the arithmetic below goes through local-time Date getters. Because the format is
+ * fixed-width, calendar dates compare and sort correctly as plain strings.
+ */
+export type CalendarDate = string & { readonly __calendarDate: true };
+
+export interface DateParts {
+  year: number;
+  // 1-based, unlike Date#getMonth
+  month: number;
+  day: number;
+}
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MS_PER_DAY = 86400000;
+
+const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+// Date.UTC maps years 0-99 to 1900-1999, so the year is set separately
+function utcTime(year: number, month: number, day: number): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date.getTime();
+}
+
+function fromUTCTime(time: number): CalendarDate {
+  const date = new Date(time);
+  return `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1, 2)}-${pad(date.getUTCDate(), 2)}` as CalendarDate;
+}
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+}
+
+/** Returns the date for a YYYY-MM-DD string, or null when it isn't a real date (e.g. 2024-02-30). */
+export function parseCalendarDate(text: string): CalendarDate | null {
+  const match = ISO_DATE.exec(text.trim());
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return `${match[1]}-${match[2]}-${match[3]}` as CalendarDate;
+}
+
+export function isCalendarDate(value: unknown): value is CalendarDate {
+  return typeof value === 'string' && parseCalendarDate(value) === value;
+}
+
+/** Builds a date from a year, 1-based month and day; out-of-range months and days roll over. */
+export function calendarDate(year: number, month: number, day: number): CalendarDate {
+  return fromUTCTime(utcTime(year, month, day));
+}
+
+export function dateParts(date: CalendarDate): DateParts {
+  return { year: Number(date.slice(0, 4)), month: Number(date.slice(5, 7)), day: Number(date.slice(8, 10)) };
+}
+
+// Days since 1970-01-01, for placing dates on a linear scale
+export function toDayNumber(date: CalendarDate): number {
+  const { year, month, day } = dateParts(date);
+  return Math.round(utcTime(year, month, day) / MS_PER_DAY);
+}
+
+export function fromDayNumber(days: number): CalendarDate {
+  return fromUTCTime(days * MS_PER_DAY);
+}
+
+/** Signed number of days from start to end. */
+export function daysBetween(start: CalendarDate, end: CalendarDate): number {
+  return toDayNumber(end) - toDayNumber(start);
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  return fromDayNumber(toDayNumber(date) + days);
+}
+
+// Month arithmetic that keeps month-ends on month-ends (Mar 31 - 1 month = Feb 28/29)
+export function addMonths(date: CalendarDate, months: number): CalendarDate {
+  const { year, month, day } = dateParts(date);
+  const target = calendarDate(year, month + months, 1);
+  const { year: targetYear, month: targetMonth } = dateParts(target);
+  const lastDayOfTarget = daysInMonth(targetYear, targetMonth);
+  const isMonthEnd = day === daysInMonth(year, month);
+  return calendarDate(targetYear, targetMonth, isMonthEnd ? lastDayOfTarget : Math.min(day, lastDayOfTarget));
+}
+
+// Same month and day in another year; 29 February rolls over to 1 March outside leap years
+export function addYears(date: CalendarDate, years: number): CalendarDate {
+  const { year, month, day } = dateParts(date);
+  return calendarDate(year + years, month, day);
+}
+
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Today in the user's own timezone, which is the calendar day they would write down. */
+export function today(): CalendarDate {
+  const now = new Date();
+  return calendarDate(now.getFullYear(), now.getMonth() + 1, now.getDate());
+}
+
+/** Formats for display in the user's locale without shifting the day in their timezone. */
+export function formatCalendarDate(date: CalendarDate, options: Intl.DateTimeFormatOptions = {}, locale?: string): string {
+  const { year, month, day } = dateParts(date);
+  return new Date(utcTime(year, month, day)).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+}
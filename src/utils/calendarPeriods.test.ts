@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { generateCalendarPeriods, parseValuations } from './calendarPeriods';
+
+const ALL = { quarters: true, years: true, ytd: true, qtd: true };
+
+describe('parseValuations', () => {
+  it('reads dated values, skipping the header', () => {
+    const { valuations, errors } = parseValuations('date,value\n2024-03-31,110\n2023-12-31,100\n');
+
+    expect(errors).toEqual([]);
+    expect(valuations).toEqual([
+      { date: '2023-12-31', value: 100 },
+      { date: '2024-03-31', value: 110 }
+    ]);
+  });
+});
+
+describe('generateCalendarPeriods', () => {
+  it('builds quarters, YTD and QTD from quarter-end valuations', () => {
+    const { valuations } = parseValuations('2023-12-31,100\n2024-03-31,110\n2024-06-30,120\n2024-08-15,125');
+    const periods = generateCalendarPeriods(valuations, ALL);
+
+    expect(periods.map(p => [p.label, p.startDate, p.endDate])).toEqual([
+      ['Q1 2024', '2023-12-31', '2024-03-31'],
+      ['Q2 2024', '2024-03-31', '2024-06-30'],
+      ['YTD 2024', '2023-12-31', '2024-08-15'],
+      ['QTD Q3 2024', '2024-06-30', '2024-08-15']
+    ]);
+  });
+
+  it('counts a valuation on the last business day as the quarter-end', () => {
+    const { valuations } = parseValuations('2022-12-30,90\n2023-12-29,100');
+    const periods = generateCalendarPeriods(valuations, ALL);
+
+    expect(periods.map(p => [p.label, p.startDate, p.endDate])).toEqual([['2023', '2022-12-30', '2023-12-29']]);
+  });
+});
@@ -0,0 +1,183 @@
+import { Period } from './periodResults';
+import { detectDelimiter, readAllRecords } from './csvImport';
+import { ambiguityWarnings, detectDateFormat, detectNumberFormat, parseAmount, parseDate } from './localeFormats';
+import { CalendarDate, calendarDate, compareDates, dateParts, daysBetween, daysInMonth } from './calendarDate';
+
+export interface Valuation {
+  date: CalendarDate;
+  value: number;
+}
+
+export interface CalendarPeriodOptions {
+  quarters: boolean;
+  years: boolean;
+  ytd: boolean;
+  qtd: boolean;
+}
+
+export type CalendarPeriodKind = 'quarter' | 'year' | 'ytd' | 'qtd';
+
+export interface CalendarPeriodKey {
+  kind: CalendarPeriodKind;
+  year: number;
+  quarter?: number;
+}
+
+export const CALENDAR_PERIOD_PREFIX = 'cal-';
+
+// Valuations dated up to this many days before a quarter-end (e.g. the last business day) count as that quarter-end
+const QUARTER_END_TOLERANCE_DAYS = 6;
+
+interface QuarterEnd {
+  year: number;
+  quarter: number;
+  valuation: Valuation;
+}
+
+function quarterEndFor(date: CalendarDate): { year: number; quarter: number } | null {
+  const parts = dateParts(date);
+
+  const quarter = Math.ceil(parts.month / 3);
+  const lastMonth = quarter * 3;
+  const daysBeforeEnd = daysBetween(date, calendarDate(parts.year, lastMonth, daysInMonth(parts.year, lastMonth)));
+
+  return daysBeforeEnd <= QUARTER_END_TOLERANCE_DAYS ? { year: parts.year, quarter } : null;
+}
+
+function previousQuarter(year: number, quarter: number): { year: number; quarter: number } {
+  return quarter === 1 ? { year: year - 1, quarter: 4 } : { year, quarter: quarter - 1 };
+}
+
+export function calendarPeriodId(key: CalendarPeriodKey): string {
+  switch (key.kind) {
+    case 'quarter':
+      return `${CALENDAR_PERIOD_PREFIX}${key.year}-q${key.quarter}`;
+    case 'year':
+      return `${CALENDAR_PERIOD_PREFIX}${key.year}`;
+    case 'ytd':
+      return `${CALENDAR_PERIOD_PREFIX}ytd-${key.year}`;
+    case 'qtd':
+      return `${CALENDAR_PERIOD_PREFIX}qtd-${key.year}-q${key.quarter}`;
+  }
+}
+
+export function parseCalendarPeriodId(id: string): CalendarPeriodKey | null {
+  if (!id.startsWith(CALENDAR_PERIOD_PREFIX)) return null;
+  const rest = id.slice(CALENDAR_PERIOD_PREFIX.length);
+
+  let match = /^(\d{4})-q([1-4])$/.exec(rest);
+  if (match) return { kind: 'quarter', year: Number(match[1]), quarter: Number(match[2]) };
+  match = /^(\d{4})$/.exec(rest);
+  if (match) return { kind: 'year', year: Number(match[1]) };
+  match = /^ytd-(\d{4})$/.exec(rest);
+  if (match) return { kind: 'ytd', year: Number(match[1]) };
+  match = /^qtd-(\d{4})-q([1-4])$/.exec(rest);
+  if (match) return { kind: 'qtd', year: Number(match[1]), quarter: Number(match[2]) };
+  return null;
+}
+
+export function isCalendarPeriod(period: Period): boolean {
+  return parseCalendarPeriodId(period.id) !== null;
+}
+
+export function parseValuations(text: string): { valuations: Valuation[]; errors: string[]; warnings: string[] } {
+  const valuations: Valuation[] = [];
+  const errors: string[] = [];
+  const records = readAllRecords(text, detectDelimiter(text));
+  const dateFormat = detectDateFormat(records.map(r => r.fields[0] || ''));
+  const numberFormat = detectNumberFormat(records.map(r => r.fields[1] || ''));
+
+  for (const { line, fields } of records) {
+    const date = parseDate(fields[0] || '', dateFormat.format);
+    const value = parseAmount(fields[1] || '', numberFormat.format);
+
+    if (!date || value === null) {
+      // A header row is expected and not worth reporting
+      if (line > 1 || !/date/i.test(fields[0] || '')) {
+        errors.push(`Line ${line}: expected date,value but got "${fields.join(',')}"`);
+      }
+      continue;
+    }
+    valuations.push({ date, value });
+  }
+
+  // Later entries for the same date win, so a pasted correction overrides a prefilled value
+  const byDate = new Map(valuations.map(v => [v.date, v]));
+  return {
+    valuations: [...byDate.values()].sort((a, b) => compareDates(a.date, b.date)),
+    errors,
+    warnings: ambiguityWarnings(dateFormat, numberFormat)
+  };
+}
+
+export function generateCalendarPeriods(valuations: Valuation[], options: CalendarPeriodOptions): Period[] {
+  const sorted = [...valuations].sort((a, b) => compareDates(a.date, b.date));
+  if (sorted.length < 2) return [];
+
+  // The last valuation within the tolerance window stands for each quarter-end
+  const quarterEnds = new Map<string, QuarterEnd>();
+  for (const valuation of sorted) {
+    const qe = quarterEndFor(valuation.date);
+    if (qe) quarterEnds.set(`${qe.year}-${qe.quarter}`, { ...qe, valuation });
+  }
+  const quarterEndAt = (year: number, quarter: number) => quarterEnds.get(`${year}-${quarter}`);
+
+  const periods: Period[] = [];
+  const addPeriod = (key: CalendarPeriodKey, label: string, start: Valuation, end: Valuation) => {
+    periods.push({
+      id: calendarPeriodId(key),
+      label,
+      startDate: start.date,
+      endDate: end.date,
+      startValue: start.value.toString(),
+      endValue: end.value.toString(),
+      annualized: 'never'
+    });
+  };
+
+  const orderedQuarterEnds = [...quarterEnds.values()].sort((a, b) => a.valuation.date.localeCompare(b.valuation.date));
+
+  for (const qe of orderedQuarterEnds) {
+    if (options.quarters) {
+      const prev = previousQuarter(qe.year, qe.quarter);
+      const start = quarterEndAt(prev.year, prev.quarter);
+      if (start) {
+        addPeriod({ kind: 'quarter', year: qe.year, quarter: qe.quarter }, `Q${qe.quarter} ${qe.year}`, start.valuation, qe.valuation);
+      }
+    }
+    if (options.years && qe.quarter === 4) {
+      const start = quarterEndAt(qe.year - 1, 4);
+      if (start) {
+        addPeriod({ kind: 'year', year: qe.year }, `${qe.year}`, start.valuation, qe.valuation);
+      }
+    }
+  }
+
+  const latest = sorted[sorted.length - 1];
+  const latestParts = dateParts(latest.date);
+  const latestQuarterEnd = quarterEndFor(latest.date);
+  const latestQuarter = Math.ceil(latestParts.month / 3);
+
+  // A year-end valuation is already covered by the calendar year
+  if (options.ytd && !(latestQuarterEnd && latestQuarterEnd.quarter === 4)) {
+    const start = quarterEndAt(latestParts.year - 1, 4);
+    if (start) {
+      addPeriod({ kind: 'ytd', year: latestParts.year }, `YTD ${latestParts.year}`, start.valuation, latest);
+    }
+  }
+
+  if (options.qtd && !latestQuarterEnd) {
+    const prev = previousQuarter(latestParts.year, latestQuarter);
+    const start = quarterEndAt(prev.year, prev.quarter);
+    if (start) {
+      addPeriod(
+        { kind: 'qtd', year: latestParts.year, quarter: latestQuarter },
+        `QTD Q${latestQuarter} ${latestParts.year}`,
+        start.valuation,
+        latest
+      );
+    }
+  }
+
+  return periods;
+}
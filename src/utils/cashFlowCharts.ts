@@ -0,0 +1,100 @@
+import { CashFlow, NPVPoint, XIRRResult, calculateNPVProfile } from './xirr';
+import { CalendarDate, compareDates } from './calendarDate';
+
+export interface JCurvePoint {
+  date: CalendarDate;
+  // Flows on the same date are combined; contributions are negative
+  contributions: number;
+  distributions: number;
+  cumulative: number;
+}
+
+export interface NPVMarker {
+  // Where Newton-Raphson or Brent landed, or another rate at which NPV is zero
+  kind: 'newton' | 'brent' | 'root';
+  label: string;
+  rate: number;
+  npv: number;
+  converged: boolean;
+}
+
+export interface NPVProfile {
+  points: NPVPoint[];
+  markers: NPVMarker[];
+}
+
+// The range calculateXIRR scans for roots
+const MIN_RATE = -0.99;
+const MAX_RATE = 10;
+const PROFILE_SAMPLES = 121;
+
+/** Running net cash flow by date: the J-curve of a fund that draws capital before returning it. */
+export function buildJCurve(cashFlows: CashFlow[]): JCurvePoint[] {
+  const points: JCurvePoint[] = [];
+  let cumulative = 0;
+
+  for (const flow of [...cashFlows].sort((a, b) => compareDates(a.date, b.date))) {
+    if (!flow.amount) continue;
+
+    let point = points[points.length - 1];
+    if (!point || point.date !== flow.date) {
+      point = { date: flow.date, contributions: 0, distributions: 0, cumulative };
+      points.push(point);
+    }
+    if (flow.amount < 0) {
+      point.contributions += flow.amount;
+    } else {
+      point.distributions += flow.amount;
+    }
+    cumulative += flow.amount;
+    point.cumulative = cumulative;
+  }
+
+  return points;
+}
+
+/**
+ * NPV across discount rates around every rate calculateXIRR found, with a marker where each
+ * method landed. When the Method Comparison shows a difference, the curve shows which zero
+ * crossing each method converged to, or how far from zero a method that failed stopped.
+ */
+export function buildNPVProfile(cashFlows: CashFlow[], result: XIRRResult): NPVProfile {
+  const inRange = (rate: number) => isFinite(rate) && rate > MIN_RATE && rate <= MAX_RATE;
+  const methods = [
+    { kind: 'newton' as const, method: result.newtonRaphson },
+    { kind: 'brent' as const, method: result.brent }
+  ].filter(m => inRange(m.method.rate));
+  const otherRoots = result.roots.filter(root => inRange(root) && methods.every(m => Math.abs(m.method.rate - root) > 0.000001));
+
+  const rates = [0, ...methods.map(m => m.method.rate), ...otherRoots];
+  const low = Math.min(...rates);
+  const high = Math.max(...rates);
+  const margin = Math.max(0.05, (high - low) * 0.25);
+  // NPV goes to infinity at -100%, so the curve stops halfway there from the lowest rate
+  const from = Math.max(low - margin, (low + 1) / 2 - 1);
+  const to = high + margin;
+  const grid = Array.from({ length: PROFILE_SAMPLES }, (_, i) => from + ((to - from) * i) / (PROFILE_SAMPLES - 1));
+
+  const markerRates = [...methods.map(m => m.method.rate), ...otherRoots];
+  const markerNPVs = calculateNPVProfile(cashFlows, markerRates, result.dayCount).map(p => p.npv);
+
+  return {
+    points: calculateNPVProfile(cashFlows, grid, result.dayCount),
+    markers: [
+      ...methods.map((m, i) => ({
+        kind: m.kind,
+        label: m.method.method,
+        rate: m.method.rate,
+        npv: markerNPVs[i],
+        converged: m.method.converged
+      })),
+      ...otherRoots.map((rate, i) => ({
+        kind: 'root' as const,
+        label: 'Other IRR',
+        rate,
+        npv: markerNPVs[methods.length + i],
+        converged: true
+      }))
+    ]
+  };
+}
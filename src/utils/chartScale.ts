@@ -0,0 +1,29 @@
+import { CalendarDate, calendarDate, dateParts } from './calendarDate';
+
+// Round axis ticks (1, 2, 2.5 or 5 times a power of ten) spanning min to max
+export function niceTicks(min: number, max: number, count: number): number[] {
+  if (min === max) {
+    return [min];
+  }
+  const rawStep = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= rawStep) || rawStep;
+  const ticks: number[] = [];
+  for (let t = Math.ceil(min / step) * step; t <= max + step * 1e-9; t += step) {
+    ticks.push(Math.abs(t) < step * 1e-9 ? 0 : t);
+  }
+  return ticks;
+}
+
+// 1 January ticks between two dates, thinned to at most maxTicks
+export function yearTicks(first: CalendarDate, last: CalendarDate, maxTicks = 8): CalendarDate[] {
+  const startYear = dateParts(first).year;
+  const endYear = dateParts(last).year;
+  const yearStep = Math.max(1, Math.ceil((endYear - startYear + 1) / maxTicks));
+  const ticks: CalendarDate[] = [];
+  for (let year = startYear; year <= endYear + 1; year += yearStep) {
+    const tick = calendarDate(year, 1, 1);
+    if (tick >= first && tick <= last) ticks.push(tick);
+  }
+  return ticks;
+}
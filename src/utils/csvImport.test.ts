@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, detectHeader, guessColumnMapping, mapFlowRecords, mapPeriodRecords, readAllRecords, splitSections } from './csvImport';
+
+// The multi-period CSV template as App's downloadTemplate writes it
+const TEMPLATE = `MULTI-PERIOD XIRR TEMPLATE
+
+Instructions:
+1. Define your analysis periods with start dates, end dates, start values, and end values
+2. Add intermediate cash flows (contributions, distributions, etc.) with dates
+3. Upload or paste this file - all values will be automatically populated!
+
+Period Definitions:
+Period Label,Start Date,End Date,Start Value,End Value
+1 Year,2024-01-01,2024-12-31,100000,115000
+
+Intermediate Cash Flows:
+Date,Amount,Description
+2024-03-15,-5000,Additional Investment
+2024-06-15,2000,Distribution
+
+Note: Use negative amounts for investments, positive for distributions`;
+
+describe('readRecords', () => {
+  it('keeps delimiters inside quoted fields', () => {
+    const records = readAllRecords('2024-03-31,-500,"Fees, Q1"\n2024-06-30,"1,250,000",Distribution', ',');
+    expect(records.map(r => r.fields)).toEqual([
+      ['2024-03-31', '-500', 'Fees, Q1'],
+      ['2024-06-30', '1,250,000', 'Distribution']
+    ]);
+  });
+
+  it('reads doubled quotes and line breaks inside quotes', () => {
+    const records = readAllRecords('2024-01-01,-100,"Called ""early""\nsee memo"\r\n2024-12-31,110,Exit', ',');
+    expect(records).toEqual([
+      { line: 1, fields: ['2024-01-01', '-100', 'Called "early"\nsee memo'] },
+      { line: 3, fields: ['2024-12-31', '110', 'Exit'] }
+    ]);
+  });
+
+  it('drops a leading byte order mark and skips blank lines', () => {
+    const records = readAllRecords('\uFEFFDate,Amount\n\n2024-01-01,-100\n', ',');
+    expect(records).toEqual([
+      { line: 1, fields: ['Date', 'Amount'] },
+      { line: 3, fields: ['2024-01-01', '-100'] }
+    ]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('prefers a semicolon when commas are decimal separators', () => {
+    expect(detectDelimiter('2024-01-01;-1000,50')).toBe(';');
+    expect(detectDelimiter('2024-01-01;-1000,50\n2024-12-31;1100,25')).toBe(';');
+  });
+
+  it('finds commas and tabs', () => {
+    expect(detectDelimiter('Date,Amount,Description\n2024-01-01,-100,"Fees; Q1"')).toBe(',');
+    expect(detectDelimiter('Date\tAmount\n2024-01-01\t-100')).toBe('\t');
+  });
+});
+
+describe('mapFlowRecords', () => {
+  const mapping = { date: 0, amount: 1, description: 2, marketValue: null };
+
+  it('reads quoted thousands-separated amounts', () => {
+    const [flow] = mapFlowRecords(readAllRecords('2024-06-30,"1,250,000","Fees, Q1"', ','), mapping, 3);
+    expect(flow).toMatchObject({ date: '2024-06-30', amount: '1250000', description: 'Fees, Q1', error: undefined });
+  });
+
+  it('flags rows with more columns than expected', () => {
+    const [flow] = mapFlowRecords(readAllRecords('2024-06-30,1,250,000,Distribution', ','), mapping, 3);
+    expect(flow.error).toBe('Expected 3 columns but found 5; quote values that contain the delimiter');
+  });
+});
+
+describe('splitSections', () => {
+  it('imports the multi-period template without errors', () => {
+    const { flows, periods } = splitSections(readAllRecords(TEMPLATE, ','));
+
+    expect(detectHeader(flows)).toBe(true);
+    const [header, ...rows] = flows;
+    const mapped = mapFlowRecords(rows, guessColumnMapping(header.fields, rows), header.fields.length);
+    expect(mapped.map(f => [f.date, f.amount, f.error])).toEqual([
+      ['2024-03-15', '-5000', undefined],
+      ['2024-06-15', '2000', undefined]
+    ]);
+
+    const imported = mapPeriodRecords(periods!.slice(1));
+    expect(imported.map(p => [p.period?.label, p.error])).toEqual([['1 Year', undefined]]);
+  });
+
+  it('skips note and comment lines outside the template', () => {
+    const { flows } = splitSections(readAllRecords('# exported 2024-12-31\n2024-01-01,-100\n2024-12-31,110\nNote: amounts in USD', ','));
+    expect(flows.map(r => r.fields[0])).toEqual(['2024-01-01', '2024-12-31']);
+  });
+});
@@ -0,0 +1,355 @@
+import { Period } from './periodResults';
+import {
+  DEFAULT_FORMATS,
+  DateFormat,
+  FormatDetection,
+  NUMBER_FORMATS,
+  NumberFormat,
+  ParseFormats,
+  detectDateFormat,
+  detectNumberFormat,
+  parseAmount,
+  parseDate
+} from './localeFormats';
+
+export type Delimiter = ',' | ';' | '\t';
+
+export const DELIMITERS: { value: Delimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' }
+];
+
+export interface CSVRecord {
+  // 1-based line the record starts on, for row-level error messages
+  line: number;
+  fields: string[];
+}
+
+export interface ColumnMapping {
+  date: number;
+  amount: number;
+  description: number | null;
+  marketValue: number | null;
+}
+
+export interface ImportedFlow {
+  line: number;
+  date: string;
+  amount: string;
+  description: string;
+  marketValue?: string;
+  error?: string;
+}
+
+export interface ImportedPeriod {
+  line: number;
+  period?: Period;
+  error?: string;
+}
+
+export interface CSVSections {
+  flows: CSVRecord[];
+  // Only present for the multi-period template, which has a "Period Definitions:" section
+  periods: CSVRecord[] | null;
+}
+
+export interface RecordFormats {
+  date: FormatDetection<DateFormat>;
+  number: FormatDetection<NumberFormat>;
+}
+
+const PERIOD_SECTION = /^period definitions:?$/i;
+const FLOW_SECTION = /^intermediate cash flows:?$/i;
+// Notes and comments, such as the "Note: ..." line closing the multi-period template
+const NOTE_ROW = /^(note:|#)/i;
+const SNIFF_RECORDS = 20;
+
+/**
+ * RFC 4180 reader. Fields may be quoted; quoted fields can hold delimiters, line breaks and
+ * doubled quotes. Records are yielded one at a time, so sniffing a delimiter only reads the
+ * first few. Fields are trimmed and blank lines are skipped.
+ */
+export function* readRecords(text: string, delimiter: Delimiter): Generator<CSVRecord> {
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  // Excel writes a byte order mark at the start of UTF-8 CSVs
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === '') {
+      inQuotes = true;
+      field = '';
+    } else if (ch === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      fields.push(field.trim());
+      if (fields.some(f => f !== '')) {
+        yield { line: recordLine, fields };
+      }
+      fields = [];
+      field = '';
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+
+  fields.push(field.trim());
+  if (fields.some(f => f !== '')) {
+    yield { line: recordLine, fields };
+  }
+}
+
+export function readAllRecords(text: string, delimiter: Delimiter): CSVRecord[] {
+  return [...readRecords(text, delimiter)];
+}
+
+// Header and column sniffing runs before a format is chosen, so any format counts. Bare numbers
+// are left to the amount check, even though they could be YYYYMMDD or Excel serial dates.
+const looksLikeDate = (value: string) => !!(parseDate(value, 'mdy') || parseDate(value, 'dmy'));
+const looksLikeAmount = (value: string) => NUMBER_FORMATS.some(f => parseAmount(value, f.value) !== null);
+
+/**
+ * Picks the delimiter that splits the most of the first records into the same number of
+ * columns. On a tie the one giving more columns wins, then the one whose fields read as dates
+ * and amounts, so "2024-01-01;-1000,50" is read as semicolon-separated with a decimal comma
+ * rather than as "2024-01-01;-1000" and "50".
+ */
+export function detectDelimiter(text: string): Delimiter {
+  let best: { delimiter: Delimiter; consistent: number; columns: number; typed: number } =
+    { delimiter: ',', consistent: 0, columns: 0, typed: 0 };
+
+  for (const { value: delimiter } of DELIMITERS) {
+    const counts = new Map<number, { consistent: number; typed: number }>();
+    let read = 0;
+    for (const record of readRecords(text, delimiter)) {
+      const count = counts.get(record.fields.length) || { consistent: 0, typed: 0 };
+      count.consistent++;
+      count.typed += record.fields.filter(f => looksLikeDate(f) || looksLikeAmount(f)).length;
+      counts.set(record.fields.length, count);
+      if (++read >= SNIFF_RECORDS) break;
+    }
+
+    for (const [columns, { consistent, typed }] of counts) {
+      if (columns < 2) continue;
+      const better = consistent !== best.consistent
+        ? consistent > best.consistent
+        : columns !== best.columns ? columns > best.columns : typed > best.typed;
+      if (better) {
+        best = { delimiter, consistent, columns, typed };
+      }
+    }
+  }
+
+  return best.delimiter;
+}
+
+export function splitSections(allRecords: CSVRecord[]): CSVSections {
+  const records = allRecords.filter(r => !NOTE_ROW.test(r.fields[0]));
+  // Spreadsheets pad the section titles with empty cells, so only the first field may be filled
+  const isTitle = (r: CSVRecord, pattern: RegExp) => pattern.test(r.fields[0]) && r.fields.slice(1).every(f => f === '');
+  const periodStart = records.findIndex(r => isTitle(r, PERIOD_SECTION));
+  const flowStart = records.findIndex(r => isTitle(r, FLOW_SECTION));
+
+  if (periodStart === -1 && flowStart === -1) {
+    return { flows: records, periods: null };
+  }
+
+  const periodEnd = flowStart > periodStart ? flowStart : records.length;
+  const flowEnd = periodStart > flowStart ? periodStart : records.length;
+  return {
+    flows: flowStart === -1 ? [] : records.slice(flowStart + 1, flowEnd),
+    periods: periodStart === -1 ? null : records.slice(periodStart + 1, periodEnd)
+  };
+}
+
+// A first row with no date and no number in it is taken to be column names
+export function detectHeader(records: CSVRecord[]): boolean {
+  const first = records[0];
+  if (!first || records.length < 2) return false;
+  return first.fields.every(f => !looksLikeDate(f) && !looksLikeAmount(f));
+}
+
+export function columnCount(records: CSVRecord[]): number {
+  return records.reduce((max, r) => Math.max(max, r.fields.length), 0);
+}
+
+// The column count most rows share, which rows split by an unquoted delimiter stand out from
+export function typicalColumnCount(records: CSVRecord[]): number {
+  const counts = new Map<number, number>();
+  records.forEach(r => counts.set(r.fields.length, (counts.get(r.fields.length) || 0) + 1));
+  let typical = 0;
+  counts.forEach((count, columns) => {
+    if (count > (counts.get(typical) || 0)) typical = columns;
+  });
+  return typical;
+}
+
+/**
+ * Suggests which column holds what, from the header names when there are any and otherwise
+ * from the contents: the first mostly-date column is the date, the next mostly-numeric one the
+ * amount, and the first remaining text column the description.
+ */
+export function guessColumnMapping(header: string[] | null, records: CSVRecord[]): ColumnMapping {
+  const columns = Math.max(columnCount(records), header?.length ?? 0);
+  const sample = records.slice(0, SNIFF_RECORDS);
+  const share = (column: number, test: (value: string) => boolean) =>
+    sample.length === 0 ? 0 : sample.filter(r => test(r.fields[column] ?? '')).length / sample.length;
+  const named = (pattern: RegExp, taken: number[]) =>
+    header ? header.findIndex((name, i) => pattern.test(name) && !taken.includes(i)) : -1;
+  const byContent = (test: (value: string) => boolean, taken: number[]) => {
+    for (let i = 0; i < columns; i++) {
+      if (!taken.includes(i) && share(i, test) >= 0.5) return i;
+    }
+    return -1;
+  };
+
+  const isDate = looksLikeDate;
+  const isAmount = looksLikeAmount;
+  const isText = (v: string) => v !== '' && !isDate(v) && !isAmount(v);
+
+  let date = named(/date/i, []);
+  if (date === -1) date = byContent(isDate, []);
+  if (date === -1) date = 0;
+
+  const marketValue = named(/market|nav/i, [date]);
+
+  let amount = named(/amount|flow|cash|value/i, [date, marketValue]);
+  if (amount === -1) amount = byContent(isAmount, [date, marketValue]);
+  if (amount === -1) amount = date === 1 ? 0 : Math.min(1, columns - 1);
+
+  let description = named(/desc|memo|note|comment|type|label/i, [date, amount, marketValue]);
+  if (description === -1) description = byContent(isText, [date, amount, marketValue]);
+
+  return {
+    date,
+    amount,
+    description: description === -1 ? null : description,
+    marketValue: marketValue === -1 ? null : marketValue
+  };
+}
+
+/**
+ * Detects the date and number formats from the mapped columns: the date column and period start
+ * and end dates, and the amount, market value and period value columns.
+ */
+export function detectRecordFormats(
+  flows: CSVRecord[],
+  mapping: ColumnMapping,
+  periods: CSVRecord[] | null,
+  date1904 = false
+): RecordFormats {
+  const column = (records: CSVRecord[], index: number | null) => (index === null ? [] : records.map(r => r.fields[index] ?? ''));
+  const periodRows = periods ?? [];
+
+  return {
+    date: detectDateFormat([...column(flows, mapping.date), ...column(periodRows, 1), ...column(periodRows, 2)], date1904),
+    number: detectNumberFormat([
+      ...column(flows, mapping.amount),
+      ...column(flows, mapping.marketValue),
+      ...column(periodRows, 3),
+      ...column(periodRows, 4)
+    ])
+  };
+}
+
+export function mapFlowRecords(
+  records: CSVRecord[],
+  mapping: ColumnMapping,
+  expectedColumns: number,
+  formats: ParseFormats = DEFAULT_FORMATS
+): ImportedFlow[] {
+  return records.map(({ line, fields }) => {
+    const rawDate = fields[mapping.date] ?? '';
+    const rawAmount = fields[mapping.amount] ?? '';
+    const rawMarketValue = mapping.marketValue !== null ? fields[mapping.marketValue] ?? '' : '';
+
+    const date = parseDate(rawDate, formats.date, formats.date1904);
+    const amount = parseAmount(rawAmount, formats.number);
+    const marketValue = rawMarketValue ? parseAmount(rawMarketValue, formats.number) : null;
+
+    let error: string | undefined;
+    if (fields.length > expectedColumns) {
+      error = `Expected ${expectedColumns} columns but found ${fields.length}; quote values that contain the delimiter`;
+    } else if (!rawDate) {
+      error = 'Missing date';
+    } else if (!date) {
+      error = `Invalid date "${rawDate}"`;
+    } else if (!rawAmount) {
+      error = 'Missing amount';
+    } else if (amount === null) {
+      error = `Invalid amount "${rawAmount}"`;
+    } else if (rawMarketValue && marketValue === null) {
+      error = `Invalid market value "${rawMarketValue}"`;
+    }
+
+    return {
+      line,
+      date,
+      amount: amount === null ? rawAmount : String(amount),
+      description: mapping.description !== null ? fields[mapping.description] ?? '' : '',
+      marketValue: marketValue === null ? undefined : String(marketValue),
+      error
+    };
+  });
+}
+
+// Period rows follow the template's fixed layout: label, start date, end date, start value, end value
+export function mapPeriodRecords(records: CSVRecord[], formats: ParseFormats = DEFAULT_FORMATS): ImportedPeriod[] {
+  const rows = detectHeader(records) ? records.slice(1) : records;
+
+  return rows.map(({ line, fields }, index) => {
+    if (fields.length < 5) {
+      return { line, error: `Expected 5 columns but found ${fields.length}` };
+    }
+
+    const [label, rawStart, rawEnd, rawStartValue, rawEndValue] = fields;
+    const startDate = parseDate(rawStart, formats.date, formats.date1904);
+    const endDate = parseDate(rawEnd, formats.date, formats.date1904);
+    const startValue = parseAmount(rawStartValue, formats.number);
+    const endValue = parseAmount(rawEndValue, formats.number);
+
+    if (!startDate) return { line, error: `Invalid start date "${rawStart}"` };
+    if (!endDate) return { line, error: `Invalid end date "${rawEnd}"` };
+    if (startValue === null) return { line, error: `Invalid start value "${rawStartValue}"` };
+    if (endValue === null) return { line, error: `Invalid end value "${rawEndValue}"` };
+
+    return {
+      line,
+      period: {
+        id: `${Date.now()}${index}`,
+        label,
+        startDate,
+        endDate,
+        startValue: String(startValue),
+        endValue: String(endValue)
+      }
+    };
+  });
+}
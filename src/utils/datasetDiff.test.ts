@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { diffDatasets, diffFlows, diffPeriods, isEmptyDiff } from './datasetDiff';
+import { Period } from './periodResults';
+
+const flow = (date: string, amount: string, description = '', marketValue?: string) => ({ date, amount, description, marketValue });
+
+const period = (id: string, endValue: string): Period => ({
+  id,
+  label: 'FY 2024',
+  startDate: '2024-01-01',
+  endDate: '2024-12-31',
+  startValue: '1000',
+  endValue
+});
+
+describe('diffFlows', () => {
+  it('pairs a reordered same-date pair by description', () => {
+    const before = [flow('2024-03-31', '-500', 'Call'), flow('2024-03-31', '200', 'Distribution')];
+    const after = [flow('2024-03-31', '200', 'Distribution'), flow('2024-03-31', '-500', 'Call')];
+
+    expect(diffFlows(before, after)).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it('reports a changed amount on a flow with the same date and description', () => {
+    const diff = diffFlows([flow('2024-03-31', '-500', 'Call')], [flow('2024-03-31', '-600', 'Call')]);
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed.map(c => c.changes)).toEqual([[{ field: 'Amount', before: '-500', after: '-600' }]]);
+  });
+
+  it('falls back to the date when the description changed', () => {
+    const diff = diffFlows([flow('2024-03-31', '-500', 'Call')], [flow('2024-03-31', '-500', 'Capital call')]);
+    expect(diff.changed.map(c => c.changes)).toEqual([[{ field: 'Description', before: 'Call', after: 'Capital call' }]]);
+  });
+
+  it('treats equal numbers and blank market values as unchanged', () => {
+    const diff = diffFlows([flow('2024-03-31', '1000', 'Exit', '')], [flow('2024-03-31', '1000.00', 'Exit')]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('lists flows without a partner as added or removed', () => {
+    const diff = diffFlows([flow('2024-01-01', '-1000')], [flow('2024-01-01', '-1000'), flow('2024-06-30', '50')]);
+
+    expect(diff.added).toEqual([flow('2024-06-30', '50')]);
+    expect(diff.removed).toEqual([]);
+  });
+});
+
+describe('diffPeriods', () => {
+  it('matches periods by id', () => {
+    const diff = diffPeriods([period('a', '1100'), period('b', '1200')], [period('b', '1250.0'), period('c', '1300')]);
+
+    expect(diff.added.map(p => p.id)).toEqual(['c']);
+    expect(diff.removed.map(p => p.id)).toEqual(['a']);
+    expect(diff.changed.map(c => c.changes)).toEqual([[{ field: 'End Value', before: '1200', after: '1250.0' }]]);
+  });
+});
+
+describe('diffDatasets', () => {
+  it('is empty when only number formatting differs', () => {
+    const diff = diffDatasets(
+      { flows: [flow('2024-01-01', '-1000')], periodValues: { periods: [period('a', '1100')] } },
+      { flows: [flow('2024-01-01', '-1000.00')], periodValues: { periods: [period('a', '1100.00')] } }
+    );
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import type { DatasetFlow } from '../lib/datasets';
+import { Period } from './periodResults';
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface ItemChange<T> {
+  before: T;
+  after: T;
+  changes: FieldChange[];
+}
+
+export interface ItemDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: ItemChange<T>[];
+}
+
+export interface DatasetDiff {
+  flows: ItemDiff<DatasetFlow>;
+  periods: ItemDiff<Period>;
+}
+
+interface PeriodValues {
+  periods?: Period[];
+}
+
+const FLOW_FIELDS: { field: keyof DatasetFlow; label: string; numeric: boolean }[] = [
+  { field: 'date', label: 'Date', numeric: false },
+  { field: 'amount', label: 'Amount', numeric: true },
+  { field: 'description', label: 'Description', numeric: false },
+  { field: 'marketValue', label: 'Market Value', numeric: true }
+];
+
+const PERIOD_FIELDS: { field: keyof Period; label: string; numeric: boolean }[] = [
+  { field: 'label', label: 'Label', numeric: false },
+  { field: 'startDate', label: 'Start Date', numeric: false },
+  { field: 'endDate', label: 'End Date', numeric: false },
+  { field: 'startValue', label: 'Start Value', numeric: true },
+  { field: 'endValue', label: 'End Value', numeric: true },
+  { field: 'annualized', label: 'Annualization', numeric: false },
+  { field: 'benchmark', label: 'Benchmark', numeric: false }
+];
+
+// "1000" and "1000.00" are the same amount; blank and missing are the same value
+function sameValue(a: string | undefined, b: string | undefined, numeric: boolean): boolean {
+  const left = (a ?? '').trim();
+  const right = (b ?? '').trim();
+  if (numeric && left && right && !isNaN(Number(left)) && !isNaN(Number(right))) {
+    return Number(left) === Number(right);
+  }
+  return left === right;
+}
+
+function compareFields<T>(before: T, after: T, fields: { field: keyof T; label: string; numeric: boolean }[]): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const { field, label, numeric } of fields) {
+    const a = before[field] as string | undefined;
+    const b = after[field] as string | undefined;
+    if (!sameValue(a, b, numeric)) {
+      changes.push({ field: label, before: a ?? '', after: b ?? '' });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Flows have no stable id, so they are paired first on date and description and then on date
+ * alone; a flow that still has no partner on the other side was added or removed.
+ */
+export function diffFlows(before: DatasetFlow[], after: DatasetFlow[]): ItemDiff<DatasetFlow> {
+  const unmatched = new Set(before.map((_, i) => i));
+  const pairs: [DatasetFlow, DatasetFlow][] = [];
+  const leftover: DatasetFlow[] = [];
+
+  const pass = (flows: DatasetFlow[], key: (f: DatasetFlow) => string, next: DatasetFlow[]) => {
+    // Queues of unmatched earlier flows per key, in their original order
+    const queues = new Map<string, number[]>();
+    for (const i of unmatched) {
+      const k = key(before[i]);
+      const queue = queues.get(k);
+      if (queue) {
+        queue.push(i);
+      } else {
+        queues.set(k, [i]);
+      }
+    }
+
+    for (const flow of flows) {
+      const match = queues.get(key(flow))?.shift();
+      if (match === undefined) {
+        next.push(flow);
+      } else {
+        unmatched.delete(match);
+        pairs.push([before[match], flow]);
+      }
+    }
+  };
+
+  const byDescription: DatasetFlow[] = [];
+  pass(after, f => `${f.date}|${(f.description || '').trim()}`, byDescription);
+  pass(byDescription, f => f.date, leftover);
+
+  const changed = pairs
+    .map(([a, b]) => ({ before: a, after: b, changes: compareFields(a, b, FLOW_FIELDS) }))
+    .filter(c => c.changes.length > 0)
+    .sort((a, b) => a.after.date.localeCompare(b.after.date));
+
+  return {
+    added: leftover,
+    removed: [...unmatched].sort((a, b) => a - b).map(i => before[i]),
+    changed
+  };
+}
+
+export function diffPeriods(before: Period[], after: Period[]): ItemDiff<Period> {
+  const beforeById = new Map(before.map(p => [p.id, p]));
+  const afterIds = new Set(after.map(p => p.id));
+
+  const changed: ItemChange<Period>[] = [];
+  const added: Period[] = [];
+  for (const period of after) {
+    const previous = beforeById.get(period.id);
+    if (!previous) {
+      added.push(period);
+      continue;
+    }
+    const changes = compareFields(previous, period, PERIOD_FIELDS);
+    if (changes.length > 0) changed.push({ before: previous, after: period, changes });
+  }
+
+  return { added, removed: before.filter(p => !afterIds.has(p.id)), changed };
+}
+
+export function diffDatasets(
+  before: { flows: DatasetFlow[]; periodValues: PeriodValues | null },
+  after: { flows: DatasetFlow[]; periodValues: PeriodValues | null }
+): DatasetDiff {
+  return {
+    flows: diffFlows(before.flows, after.flows),
+    periods: diffPeriods(before.periodValues?.periods || [], after.periodValues?.periods || [])
+  };
+}
+
+export function isEmptyDiff(diff: DatasetDiff): boolean {
+  return [diff.flows, diff.periods].every(d => d.added.length === 0 && d.removed.length === 0 && d.changed.length === 0);
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import { ExcelErrorValue, calculateXIRR, excelXIRR, excelXNPV } from './xirr';
+import { CalendarDate } from './calendarDate';
+
+/**
+ * Reference cases for the Excel-compatible XIRR and XNPV. Expected values come either from
+ * Microsoft's XIRR/XNPV documentation or, for constructed cases, from the exact root of the
+ * ACT/365 NPV equation, which Excel reaches within its 0.000001 percent tolerance. Error cases
+ * follow the #NUM!/#VALUE! rules in the same documentation.
+ */
+interface ParityCase {
+  name: string;
+  source: 'excel-docs' | 'exact';
+  fn: 'XIRR' | 'XNPV';
+  values: number[];
+  dates: string[];
+  // The discount rate for XNPV, or the guess for XIRR (Excel's default 0.1 when omitted)
+  rate?: number;
+  expected: number | ExcelErrorValue;
+}
+
+const TOLERANCE = 1e-6;
+
+const CASES: ParityCase[] = [
+  {
+    name: 'Microsoft XIRR example',
+    source: 'excel-docs',
+    fn: 'XIRR',
+    values: [-10000, 2750, 4250, 3250, 2750],
+    dates: ['2008-01-01', '2008-03-01', '2008-10-30', '2009-02-15', '2009-04-01'],
+    expected: 0.373362535
+  },
+  {
+    name: 'Microsoft XNPV example',
+    source: 'excel-docs',
+    fn: 'XNPV',
+    values: [-10000, 2750, 4250, 3250, 2750],
+    dates: ['2008-01-01', '2008-03-01', '2008-10-30', '2009-02-15', '2009-04-01'],
+    rate: 0.09,
+    expected: 2086.647602
+  },
+  {
+    name: '10% over a 365-day year',
+    source: 'exact',
+    fn: 'XIRR',
+    values: [-1000, 1100],
+    dates: ['2021-01-01', '2022-01-01'],
+    expected: 0.1
+  },
+  {
+    name: '10% compounded over two years',
+    source: 'exact',
+    fn: 'XIRR',
+    values: [-1000, 1210],
+    dates: ['2021-01-01', '2023-01-01'],
+    expected: 0.1
+  },
+  {
+    name: 'Leap year still divides by 365',
+    source: 'exact',
+    fn: 'XIRR',
+    values: [-1000, 1100],
+    dates: ['2020-01-01', '2021-01-01'],
+    expected: 0.09971358593414137
+  },
+  {
+    name: 'Later flows entered out of date order',
+    source: 'exact',
+    fn: 'XIRR',
+    values: [-1000, 1100, 50],
+    dates: ['2021-01-01', '2022-01-01', '2021-07-02'],
+    expected: 0.15371610941533817
+  },
+  {
+    name: 'Near break-even is solved, not rounded to zero',
+    source: 'exact',
+    fn: 'XIRR',
+    values: [-1000, 1000.005],
+    dates: ['2021-01-01', '2022-01-01'],
+    expected: 0.000005
+  },
+  {
+    name: 'Two IRRs: default guess finds 10%',
+    source: 'exact',
+    fn: 'XIRR',
+    values: [-100, 230, -132],
+    dates: ['2021-01-01', '2022-01-01', '2023-01-01'],
+    expected: 0.1
+  },
+  {
+    name: 'Two IRRs: guess of 25% finds 20%',
+    source: 'exact',
+    fn: 'XIRR',
+    values: [-100, 230, -132],
+    dates: ['2021-01-01', '2022-01-01', '2023-01-01'],
+    rate: 0.25,
+    expected: 0.2
+  },
+  {
+    name: 'XNPV discounts from the first date entered',
+    source: 'exact',
+    fn: 'XNPV',
+    values: [-1000, 1100],
+    dates: ['2021-01-01', '2022-01-01'],
+    rate: 0.05,
+    expected: 47.61904761904762
+  },
+  {
+    name: 'Date before the first date',
+    source: 'excel-docs',
+    fn: 'XIRR',
+    values: [1100, -1000],
+    dates: ['2022-01-01', '2021-01-01'],
+    expected: '#NUM!'
+  },
+  {
+    name: 'No negative value',
+    source: 'excel-docs',
+    fn: 'XIRR',
+    values: [1000, 1100],
+    dates: ['2021-01-01', '2022-01-01'],
+    expected: '#NUM!'
+  },
+  {
+    name: 'Values and dates differ in length',
+    source: 'excel-docs',
+    fn: 'XIRR',
+    values: [-1000, 500, 600],
+    dates: ['2021-01-01', '2022-01-01'],
+    expected: '#NUM!'
+  },
+  {
+    name: 'Invalid date',
+    source: 'excel-docs',
+    fn: 'XIRR',
+    values: [-1000, 1100],
+    dates: ['2021-01-01', 'not a date'],
+    expected: '#VALUE!'
+  },
+  {
+    name: 'XNPV date before the first date',
+    source: 'excel-docs',
+    fn: 'XNPV',
+    values: [-1000, 1100],
+    dates: ['2021-01-01', '2020-06-30'],
+    rate: 0.05,
+    expected: '#NUM!'
+  }
+];
+
+// Invalid dates are passed through so excelXNPV/excelXIRR report #VALUE! as Excel would
+const datesOf = (parityCase: ParityCase) => parityCase.dates as CalendarDate[];
+
+function evaluate(parityCase: ParityCase): number | ExcelErrorValue {
+  if (parityCase.fn === 'XNPV') {
+    const result = excelXNPV(parityCase.rate ?? 0, parityCase.values, datesOf(parityCase));
+    return result.ok ? result.value : result.error.value;
+  }
+
+  const result = excelXIRR(parityCase.values, datesOf(parityCase), parityCase.rate);
+  return result.ok ? result.value.rate : result.error.value;
+}
+
+function expectParity(actual: number | ExcelErrorValue | undefined, expected: number | ExcelErrorValue) {
+  if (typeof expected === 'number') {
+    expect(typeof actual).toBe('number');
+    expect(Math.abs((actual as number) - expected)).toBeLessThanOrEqual(TOLERANCE * Math.max(1, Math.abs(expected)));
+  } else {
+    expect(actual).toBe(expected);
+  }
+}
+
+describe('Excel parity', () => {
+  it.each(CASES.map(c => [`${c.fn}: ${c.name}`, c] as const))('%s', (_, parityCase) => {
+    expectParity(evaluate(parityCase), parityCase.expected);
+  });
+
+  // Excel mode runs the same solver through calculateXIRR, with the flows in the order entered
+  it.each(CASES.filter(c => c.fn === 'XIRR' && c.values.length === c.dates.length).map(c => [c.name, c] as const))(
+    "calculateXIRR in 'excel' mode: %s",
+    (_, parityCase) => {
+      const flows = parityCase.values.map((amount, i) => ({ date: datesOf(parityCase)[i], amount }));
+      const outcome = calculateXIRR(flows, { mode: 'excel', guess: parityCase.rate });
+      expectParity(outcome.ok ? outcome.value.xirr : outcome.error.excel, parityCase.expected);
+    }
+  );
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { detectDateFormat, detectNumberFormat, parseAmount, parseDate } from './localeFormats';
+
+describe('parseAmount', () => {
+  it.each([
+    ['-1250000', 'comma-dot', -1250000],
+    ['1,250,000.50', 'comma-dot', 1250000.5],
+    ['1.250.000,50', 'dot-comma', 1250000.5],
+    ['1 250 000,50', 'space-comma', 1250000.5],
+    ['1 250,50', 'space-comma', 1250.5],
+    ["1'250.50", 'apostrophe-dot', 1250.5],
+    ['$ 5,000', 'comma-dot', 5000],
+    ['(5,000)', 'comma-dot', -5000],
+    ['($5,000.25)', 'comma-dot', -5000.25],
+    ['1e3', 'comma-dot', 1000]
+  ] as const)('reads %s as %s', (value, format, expected) => {
+    expect(parseAmount(value, format)).toBe(expected);
+  });
+
+  it.each([
+    ['(-5)', 'comma-dot'],
+    ['(+5)', 'comma-dot'],
+    ['1,5', 'comma-dot'],
+    ['1.5', 'dot-comma'],
+    ['12,34,567', 'comma-dot'],
+    ['abc', 'comma-dot'],
+    ['', 'comma-dot']
+  ] as const)('rejects %s under %s', (value, format) => {
+    expect(parseAmount(value, format)).toBeNull();
+  });
+});
+
+describe('parseDate', () => {
+  it('reads numeric dates in the chosen order', () => {
+    expect(parseDate('03/04/2024', 'mdy')).toBe('2024-03-04');
+    expect(parseDate('03/04/2024', 'dmy')).toBe('2024-04-03');
+    expect(parseDate('20240315', 'yyyymmdd')).toBe('2024-03-15');
+    expect(parseDate('45366', 'excel-serial')).toBe('2024-03-15');
+  });
+
+  it('reads year-first and named-month dates in any format', () => {
+    expect(parseDate('2024-03-15', 'dmy')).toBe('2024-03-15');
+    expect(parseDate('15 Mar 2024', 'mdy')).toBe('2024-03-15');
+    expect(parseDate('March 15, 2024', 'dmy')).toBe('2024-03-15');
+  });
+
+  it('rejects impossible dates instead of rolling over', () => {
+    expect(parseDate('31/02/2024', 'dmy')).toBe('');
+    expect(parseDate('20240230', 'yyyymmdd')).toBe('');
+  });
+});
+
+describe('format detection', () => {
+  it('picks the only date format that reads every value', () => {
+    expect(detectDateFormat(['15/03/2024', '03/04/2024']).format).toBe('dmy');
+  });
+
+  it('flags dates that read differently in another format', () => {
+    const detection = detectDateFormat(['03/04/2024', '05/06/2024']);
+    expect(detection.format).toBe('mdy');
+    expect(detection.alternatives).toEqual(['dmy']);
+  });
+
+  it('detects decimal commas', () => {
+    expect(detectNumberFormat(['1.250,50', '-300,25']).format).toBe('dot-comma');
+  });
+});
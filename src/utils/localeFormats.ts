@@ -0,0 +1,204 @@
+import { excelSerialToISO } from './xlsx';
+import { CalendarDate, calendarDate, daysInMonth } from './calendarDate';
+
+export type DateFormat = 'iso' | 'mdy' | 'dmy' | 'yyyymmdd' | 'excel-serial';
+
+export type NumberFormat = 'comma-dot' | 'dot-comma' | 'space-comma' | 'apostrophe-dot';
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'iso', label: 'YYYY-MM-DD' },
+  { value: 'mdy', label: 'MM/DD/YYYY' },
+  { value: 'dmy', label: 'DD/MM/YYYY' },
+  { value: 'yyyymmdd', label: 'YYYYMMDD' },
+  { value: 'excel-serial', label: 'Excel serial' }
+];
+
+export const NUMBER_FORMATS: { value: NumberFormat; label: string; thousands: string; decimal: string }[] = [
+  { value: 'comma-dot', label: '1,234.56', thousands: ',', decimal: '.' },
+  { value: 'dot-comma', label: '1.234,56', thousands: '.', decimal: ',' },
+  { value: 'space-comma', label: '1 234,56', thousands: ' ', decimal: ',' },
+  { value: 'apostrophe-dot', label: "1'234.56", thousands: "'", decimal: '.' }
+];
+
+export interface ParseFormats {
+  date: DateFormat;
+  number: NumberFormat;
+  // Only matters for Excel serial dates
+  date1904?: boolean;
+}
+
+export const DEFAULT_FORMATS: ParseFormats = { date: 'iso', number: 'comma-dot' };
+
+export interface FormatDetection<T> {
+  format: T;
+  // Other formats that read every value the chosen one does, but to different results
+  alternatives: T[];
+  // A value the formats disagree on, for the warning
+  example?: string;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const YEAR_FIRST = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+const DAY_FIRST_NAMED = /^(\d{1,2})(?:st|nd|rd|th)?[\s\-/.]+([a-z]+)\.?,?[\s\-/.]+(\d{4}|\d{2})$/i;
+const MONTH_FIRST_NAMED = /^([a-z]+)\.?[\s\-/.]+(\d{1,2})(?:st|nd|rd|th)?,?[\s\-/.]+(\d{4}|\d{2})$/i;
+const NUMERIC = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})$/;
+const COMPACT = /^(\d{4})(\d{2})(\d{2})$/;
+const SERIAL = /^\d+(\.\d+)?$/;
+const CURRENCY = /[$€£¥]/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Two-digit years follow Excel: 00-29 are 2000-2029, 30-99 are 1930-1999
+function fullYear(text: string): number {
+  const year = Number(text);
+  if (text.length > 2) return year;
+  return year < 30 ? 2000 + year : 1900 + year;
+}
+
+function toISO(year: number, month: number, day: number): CalendarDate | '' {
+  if (month < 1 || month > 12 || day < 1 || year < 1000 || year > 9999 || day > daysInMonth(year, month)) return '';
+  return calendarDate(year, month, day);
+}
+
+function monthNumber(name: string): number {
+  const lower = name.toLowerCase();
+  if (lower.length < 3) return 0;
+  return MONTHS.findIndex(m => m.startsWith(lower)) + 1;
+}
+
+/**
+ * Parses a date to YYYY-MM-DD in the given format, or '' when it isn't one. Year-first dates
+ * and dates with a month name can only be read one way, so they are accepted in every format;
+ * the format decides how all-numeric dates such as 03/04/2024 or 45366 are read.
+ */
+export function parseDate(value: string, format: DateFormat, date1904 = false): CalendarDate | '' {
+  const text = value.trim();
+
+  const yearFirst = YEAR_FIRST.exec(text);
+  if (yearFirst) return toISO(Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3]));
+
+  const dayFirst = DAY_FIRST_NAMED.exec(text);
+  if (dayFirst) return toISO(fullYear(dayFirst[3]), monthNumber(dayFirst[2]), Number(dayFirst[1]));
+
+  const monthFirst = MONTH_FIRST_NAMED.exec(text);
+  if (monthFirst) return toISO(fullYear(monthFirst[3]), monthNumber(monthFirst[1]), Number(monthFirst[2]));
+
+  switch (format) {
+    case 'mdy':
+    case 'dmy': {
+      const match = NUMERIC.exec(text);
+      if (!match) return '';
+      const [first, second] = [Number(match[1]), Number(match[2])];
+      return format === 'mdy' ? toISO(fullYear(match[3]), first, second) : toISO(fullYear(match[3]), second, first);
+    }
+    case 'yyyymmdd': {
+      const match = COMPACT.exec(text);
+      return match ? toISO(Number(match[1]), Number(match[2]), Number(match[3])) : '';
+    }
+    case 'excel-serial':
+      return SERIAL.test(text) ? excelSerialToISO(Number(text), date1904) : '';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Parses an amount such as "-1250000", "1.250.000,00", "$ 5,000" or "(5,000)" (negative) in the
+ * given number format. Thousands separators must group by three, so "1,5" is not read as 15
+ * under 1,234.56, and a sign inside the parentheses, as in "(-5)", is rejected. Returns null
+ * when the value isn't a number in that format.
+ */
+export function parseAmount(value: string, format: NumberFormat): number | null {
+  const { thousands, decimal } = NUMBER_FORMATS.find(f => f.value === format) ?? NUMBER_FORMATS[0];
+  // Non-breaking spaces are common thousands separators in exported reports
+  let text = value.replace(CURRENCY, '').replace(/[\u00a0\u202f]/g, ' ').trim();
+  let negative = false;
+
+  const parenthesized = /^\((.*)\)$/.exec(text);
+  if (parenthesized) {
+    negative = true;
+    text = parenthesized[1].replace(CURRENCY, '').trim();
+    if (/^[-+]/.test(text)) return null;
+  }
+
+  const t = thousands === ' ' ? ' ' : escapeRegExp(thousands);
+  const d = escapeRegExp(decimal);
+  const pattern = new RegExp(`^[-+]?\\s*(\\d{1,3}(${t}\\d{3})+|\\d+)?(${d}\\d*)?(e[-+]?\\d+)?$`, 'i');
+  if (!pattern.test(text) || !/\d/.test(text)) {
+    return null;
+  }
+
+  const normalized = text.replace(/\s/g, '').split(thousands).join('').replace(decimal, '.');
+  const amount = parseFloat(normalized);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+// JSON dates given as numbers are YYYYMMDD, as in API requests; strings go through the date format
+export function parseDateValue(value: unknown, format: DateFormat): CalendarDate | '' {
+  if (typeof value === 'number') return parseDate(String(value), 'yyyymmdd');
+  return typeof value === 'string' ? parseDate(value, format) : '';
+}
+
+// JSON numbers are already numbers; only strings go through the number format
+export function parseAmountValue(value: unknown, format: NumberFormat): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  return typeof value === 'string' ? parseAmount(value, format) : null;
+}
+
+/**
+ * Picks the format that reads the most values, preferring the earlier format on a tie. Formats
+ * that read just as many values but disagree on some of them are reported as alternatives, so
+ * a file of 03/04/2024-style dates or 1,234-style amounts is flagged rather than silently read.
+ */
+function detectFormat<T, R extends string | number | null>(values: string[], formats: T[], parse: (value: string, format: T) => R): FormatDetection<T> {
+  const sample = values.map(v => v.trim()).filter(v => v !== '');
+  const readings = formats.map(format => {
+    const parsed = sample.map(v => parse(v, format));
+    return { format, parsed, count: parsed.filter(p => p !== null && p !== '').length };
+  });
+
+  const best = readings.reduce((a, b) => (b.count > a.count ? b : a));
+  const sameAs = (a: R[], b: R[]) => a.every((p, i) => p === b[i]);
+  let example: string | undefined;
+  const rivals: typeof readings = [];
+  for (const reading of readings) {
+    if (reading === best || reading.count !== best.count || best.count === 0) continue;
+    // Formats that only differ in ways this data doesn't show, such as 1.234,56 and 1 234,56, count once
+    if (sameAs(reading.parsed, best.parsed) || rivals.some(r => sameAs(r.parsed, reading.parsed))) continue;
+    example ??= sample[reading.parsed.findIndex((p, i) => p !== best.parsed[i])];
+    rivals.push(reading);
+  }
+
+  return { format: best.format, alternatives: rivals.map(r => r.format), example };
+}
+
+export function detectDateFormat(values: string[], date1904 = false): FormatDetection<DateFormat> {
+  return detectFormat(values, DATE_FORMATS.map(f => f.value), (v, format) => parseDate(v, format, date1904));
+}
+
+export function detectNumberFormat(values: string[]): FormatDetection<NumberFormat> {
+  return detectFormat(values, NUMBER_FORMATS.map(f => f.value), parseAmount);
+}
+
+export function dateFormatLabel(format: DateFormat): string {
+  return DATE_FORMATS.find(f => f.value === format)?.label ?? format;
+}
+
+export function numberFormatLabel(format: NumberFormat): string {
+  return NUMBER_FORMATS.find(f => f.value === format)?.label ?? format;
+}
+
+// One warning per ambiguous detection, naming the reading that was used
+export function ambiguityWarnings(date?: FormatDetection<DateFormat>, number?: FormatDetection<NumberFormat>): string[] {
+  const warnings: string[] = [];
+  if (date && date.alternatives.length > 0) {
+    const options = [date.format, ...date.alternatives].map(dateFormatLabel).join(' or ');
+    warnings.push(`Dates such as "${date.example}" could be ${options}; they were read as ${dateFormatLabel(date.format)}.`);
+  }
+  if (number && number.alternatives.length > 0) {
+    const options = [number.format, ...number.alternatives].map(numberFormatLabel).join(' or ');
+    warnings.push(`Amounts such as "${number.example}" could be written as ${options}; they were read as ${numberFormatLabel(number.format)}.`);
+  }
+  return warnings;
+}
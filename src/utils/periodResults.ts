@@ -0,0 +1,184 @@
+import {
+  AnnualizationPolicy,
+  CashFlow,
+  DayCountConvention,
+  DietzResult,
+  MIRRResult,
+  MultiplesResult,
+  TWRResult,
+  ValuedCashFlow,
+  XIRRErrorCode,
+  XIRRMode,
+  XIRRResult,
+  buildPeriodCashFlows,
+  calculateModifiedDietz,
+  calculateMultiples,
+  calculateSimpleDietz,
+  calculateTWR,
+  calculateXIRR,
+  calculateXMIRR,
+  yearFraction
+} from './xirr';
+import { BenchmarkSeries, PMEResult, calculatePME } from './benchmark';
+import { parseCalendarDate } from './calendarDate';
+
+interface FlowInput {
+  date: string;
+  amount: string;
+  description: string;
+  marketValue?: string;
+}
+
+// Dates are YYYY-MM-DD as entered (or '' while being edited) and are read with parseCalendarDate
+export interface Period {
+  id: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+  startValue: string;
+  endValue: string;
+  annualized?: AnnualizationPolicy;
+  benchmark?: string;
+}
+
+export interface PeriodCalculationOptions {
+  dayCount: DayCountConvention;
+  mode: XIRRMode;
+  financeRate: number;
+  reinvestmentRate: number;
+}
+
+export interface PeriodResult {
+  periodId: string;
+  period: string;
+  startDate: string;
+  endDate: string;
+  years: number;
+  cashFlows: CashFlow[];
+  result: XIRRResult | null;
+  mirr: MIRRResult | null;
+  twr: TWRResult | null;
+  missingValuations: number;
+  modifiedDietz: DietzResult | null;
+  simpleDietz: DietzResult | null;
+  multiples: MultiplesResult | null;
+  benchmark?: string;
+  pme: PMEResult | null;
+  error?: string;
+  // Set when the XIRR itself could not be calculated, as opposed to missing period inputs
+  errorCode?: XIRRErrorCode;
+  inputStartValue: number;
+  inputEndValue: number;
+}
+
+export function toValuedFlows(flows: FlowInput[]): ValuedCashFlow[] {
+  return flows.flatMap(f => {
+    const date = parseCalendarDate(f.date);
+    if (!date || !f.amount) return [];
+    return [{
+      date,
+      amount: parseFloat(f.amount),
+      description: f.description,
+      marketValue: f.marketValue ? parseFloat(f.marketValue) : undefined
+    }];
+  });
+}
+
+export function calculatePeriodResult(
+  p: Period,
+  valuedFlows: ValuedCashFlow[],
+  benchmarks: BenchmarkSeries[],
+  { dayCount, mode, financeRate, reinvestmentRate }: PeriodCalculationOptions
+): PeriodResult {
+  const startDate = parseCalendarDate(p.startDate);
+  const endDate = parseCalendarDate(p.endDate);
+  const periodHasDates = startDate !== null && endDate !== null;
+  const years = periodHasDates ? yearFraction(startDate, endDate, dayCount) : 0;
+
+  const cashFlows = periodHasDates && p.startValue && p.endValue
+    ? buildPeriodCashFlows(valuedFlows, startDate, endDate, parseFloat(p.startValue), parseFloat(p.endValue))
+    : [];
+
+  const inputStartValue = parseFloat(p.startValue) || 0;
+  const inputEndValue = parseFloat(p.endValue) || 0;
+
+  const missingValuations = periodHasDates
+    ? valuedFlows.filter(f => f.date > startDate && f.date <= endDate && f.marketValue === undefined).length
+    : 0;
+  const hasValues = periodHasDates && !!p.startValue && !!p.endValue;
+  const twr = hasValues
+    ? calculateTWR(startDate, endDate, Math.abs(inputStartValue), inputEndValue, valuedFlows, dayCount)
+    : null;
+  const modifiedDietz = hasValues
+    ? calculateModifiedDietz(startDate, endDate, Math.abs(inputStartValue), inputEndValue, valuedFlows, dayCount)
+    : null;
+  const simpleDietz = hasValues
+    ? calculateSimpleDietz(startDate, endDate, Math.abs(inputStartValue), inputEndValue, valuedFlows)
+    : null;
+
+  // The last flow of a period is its end value, which plays the role of the ending NAV
+  const multiples = cashFlows.length >= 2
+    ? calculateMultiples(cashFlows.slice(0, -1), cashFlows[cashFlows.length - 1].amount)
+    : null;
+
+  const benchmark = benchmarks.find(b => b.name === p.benchmark);
+  const pme = benchmark && periodHasDates && cashFlows.length >= 2
+    ? calculatePME(cashFlows.slice(0, -1), cashFlows[cashFlows.length - 1].amount, endDate, benchmark, dayCount)
+    : null;
+
+  const base = {
+    periodId: p.id,
+    period: p.label,
+    startDate: p.startDate,
+    endDate: p.endDate,
+    years,
+    cashFlows,
+    twr,
+    missingValuations,
+    modifiedDietz,
+    simpleDietz,
+    multiples,
+    benchmark: benchmark?.name,
+    pme,
+    inputStartValue,
+    inputEndValue
+  };
+
+  if (cashFlows.length < 2) {
+    return { ...base, result: null, mirr: null, error: 'Please enter start date, end date, and values' };
+  }
+
+  const outcome = calculateXIRR(cashFlows, { annualization: p.annualized, dayCount, mode });
+  const mirr = calculateXMIRR(cashFlows, financeRate, reinvestmentRate, dayCount);
+  if (!outcome.ok) {
+    return { ...base, result: null, mirr, error: outcome.error.message, errorCode: outcome.error.code };
+  }
+
+  return { ...base, result: outcome.value, mirr };
+}
+
+// Caches results per period definition; the cache is only valid for one set of
+// flows and benchmarks, so it is cleared whenever those change
+export function createPeriodCalculator() {
+  let valuedFlows: ValuedCashFlow[] = [];
+  let benchmarks: BenchmarkSeries[] = [];
+  const cache = new Map<string, PeriodResult>();
+
+  return {
+    setContext(nextFlows: ValuedCashFlow[], nextBenchmarks: BenchmarkSeries[]) {
+      valuedFlows = nextFlows;
+      benchmarks = nextBenchmarks;
+      cache.clear();
+    },
+
+    calculate(period: Period, options: PeriodCalculationOptions): PeriodResult {
+      const key = JSON.stringify([period, options]);
+      const cached = cache.get(key);
+      if (cached) return cached;
+
+      const result = calculatePeriodResult(period, valuedFlows, benchmarks, options);
+      cache.set(key, result);
+      return result;
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { XIRRResultsDocument, XIRRWindowResult } from './apiBatch';
+import { reconcileResults, summarizeReconciliation } from './reconciliation';
+
+const windowResult = (id: string, xirr: number, error?: string): XIRRWindowResult => ({
+  'window-id': id,
+  converged: !error,
+  iterations: error ? 0 : 5,
+  xirr,
+  ...(error && { error })
+});
+
+const doc = (...windows: XIRRWindowResult[]): XIRRResultsDocument => ({
+  type: 'xirr-results',
+  'calc-time': '1 ms',
+  'request-id': 'r1',
+  results: [{ 'calc-id': 'c1', windows }]
+});
+
+describe('reconcileResults', () => {
+  it('passes windows within the tolerance and fails the rest', () => {
+    const rows = reconcileResults(
+      doc(windowResult('1', 0.1), windowResult('2', 0.1)),
+      doc(windowResult('1', 0.10005), windowResult('2', 0.1002)),
+      1
+    );
+
+    expect(rows.map(r => [r.windowId, r.status])).toEqual([['1', 'pass'], ['2', 'fail']]);
+    expect(rows[0].bpsDifference).toBeCloseTo(0.5, 9);
+    expect(rows[1].bpsDifference).toBeCloseTo(2, 9);
+  });
+
+  it('treats the nan-value on both sides as agreement', () => {
+    const rows = reconcileResults(
+      doc(windowResult('1', -999.99, 'No sign change'), windowResult('2', 0.1)),
+      doc(windowResult('1', -999.99), windowResult('2', -999.99)),
+      1
+    );
+
+    expect(rows.map(r => r.status)).toEqual(['pass', 'fail']);
+    expect(rows[1].note).toBe('Service reported no value');
+  });
+
+  it('flags windows found on only one side', () => {
+    const rows = reconcileResults(doc(windowResult('1', 0.1)), doc(windowResult('2', 0.1)), 1);
+    expect(rows.map(r => [r.windowId, r.status])).toEqual([['1', 'missing-response'], ['2', 'missing-request']]);
+  });
+
+  it('lists a repeated window-id as a duplicate instead of dropping it', () => {
+    const rows = reconcileResults(
+      doc(windowResult('1', 0.1)),
+      doc(windowResult('1', 0.1), windowResult('1', 0.2)),
+      1
+    );
+
+    expect(rows.map(r => [r.windowId, r.status, r.serviceValue])).toEqual([
+      ['1', 'pass', 0.1],
+      ['1', 'duplicate', 0.2]
+    ]);
+    expect(rows[1].note).toBe('Duplicate window in response; only the first is compared');
+    expect(summarizeReconciliation(rows)).toMatchObject({ total: 2, passed: 1, failed: 1, missing: 0 });
+  });
+});
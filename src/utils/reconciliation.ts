@@ -0,0 +1,171 @@
+import { DEFAULT_NAN_VALUE, XIRRResultsDocument, XIRRWindowResult } from './apiBatch';
+
+// A duplicate is a later window with a calc-id/window-id already seen in the same document
+export type ReconciliationStatus = 'pass' | 'fail' | 'missing-response' | 'missing-request' | 'duplicate';
+
+export interface ReconciliationRow {
+  calcId: string;
+  windowId: string;
+  serviceValue: number | null;
+  ourValue: number | null;
+  absDifference: number | null;
+  bpsDifference: number | null;
+  status: ReconciliationStatus;
+  note?: string;
+}
+
+export interface ReconciliationSummary {
+  total: number;
+  passed: number;
+  // Includes duplicate windows, which leave it unclear which value the service meant
+  failed: number;
+  missing: number;
+  maxBpsDifference: number;
+}
+
+export function isXIRRResultsDocument(data: unknown): data is XIRRResultsDocument {
+  const doc = data as XIRRResultsDocument;
+  return !!doc && doc.type === 'xirr-results' && Array.isArray(doc.results);
+}
+
+function windowKey(calcId: string, windowId: string): string {
+  return `${calcId}\u0000${windowId}`;
+}
+
+function windowValue(window: XIRRWindowResult, nanValue: number): number | null {
+  if (window.error || typeof window.xirr !== 'number' || !isFinite(window.xirr) || window.xirr === nanValue) {
+    return null;
+  }
+  return window.xirr;
+}
+
+interface IndexedWindow {
+  calcId: string;
+  window: XIRRWindowResult;
+}
+
+// The first window with each key is compared; later ones with the same key are returned separately
+function indexWindows(doc: XIRRResultsDocument): { index: Map<string, IndexedWindow>; duplicates: IndexedWindow[] } {
+  const index = new Map<string, IndexedWindow>();
+  const duplicates: IndexedWindow[] = [];
+  for (const calc of doc.results) {
+    for (const window of calc.windows || []) {
+      const key = windowKey(calc['calc-id'], String(window['window-id']));
+      if (index.has(key)) {
+        duplicates.push({ calcId: calc['calc-id'], window });
+      } else {
+        index.set(key, { calcId: calc['calc-id'], window });
+      }
+    }
+  }
+  return { index, duplicates };
+}
+
+function duplicateRow({ calcId, window }: IndexedWindow, nanValue: number, side: 'request' | 'response'): ReconciliationRow {
+  const value = windowValue(window, nanValue);
+  return {
+    calcId,
+    windowId: String(window['window-id']),
+    serviceValue: side === 'response' ? value : null,
+    ourValue: side === 'request' ? value : null,
+    absDifference: null,
+    bpsDifference: null,
+    status: 'duplicate',
+    note: `Duplicate window in ${side}; only the first is compared`
+  };
+}
+
+export function reconcileResults(
+  ours: XIRRResultsDocument,
+  service: XIRRResultsDocument,
+  toleranceBps: number,
+  nanValue: number = DEFAULT_NAN_VALUE
+): ReconciliationRow[] {
+  const { index: serviceIndex, duplicates: serviceDuplicates } = indexWindows(service);
+  const { index: ourIndex, duplicates: ourDuplicates } = indexWindows(ours);
+  const rows: ReconciliationRow[] = [];
+
+  for (const [key, { calcId, window }] of ourIndex) {
+    const windowId = String(window['window-id']);
+    const ourValue = windowValue(window, nanValue);
+    const serviceMatch = serviceIndex.get(key);
+
+    if (!serviceMatch) {
+      rows.push({
+        calcId,
+        windowId,
+        serviceValue: null,
+        ourValue,
+        absDifference: null,
+        bpsDifference: null,
+        status: 'missing-response',
+        note: 'Window not found in response'
+      });
+      continue;
+    }
+
+    serviceIndex.delete(key);
+    const serviceValue = windowValue(serviceMatch.window, nanValue);
+
+    if (serviceValue === null || ourValue === null) {
+      // Both sides reporting a failure counts as agreement
+      const bothFailed = serviceValue === null && ourValue === null;
+      rows.push({
+        calcId,
+        windowId,
+        serviceValue,
+        ourValue,
+        absDifference: null,
+        bpsDifference: null,
+        status: bothFailed ? 'pass' : 'fail',
+        note: serviceValue === null
+          ? serviceMatch.window.error || 'Service reported no value'
+          : window.error || 'Unable to calculate XIRR'
+      });
+      continue;
+    }
+
+    const absDifference = Math.abs(serviceValue - ourValue);
+    const bpsDifference = absDifference * 10000;
+
+    rows.push({
+      calcId,
+      windowId,
+      serviceValue,
+      ourValue,
+      absDifference,
+      bpsDifference,
+      status: bpsDifference <= toleranceBps ? 'pass' : 'fail'
+    });
+  }
+
+  for (const { calcId, window } of serviceIndex.values()) {
+    rows.push({
+      calcId,
+      windowId: String(window['window-id']),
+      serviceValue: windowValue(window, nanValue),
+      ourValue: null,
+      absDifference: null,
+      bpsDifference: null,
+      status: 'missing-request',
+      note: 'Window not found in request'
+    });
+  }
+
+  rows.push(
+    ...ourDuplicates.map(d => duplicateRow(d, nanValue, 'request')),
+    ...serviceDuplicates.map(d => duplicateRow(d, nanValue, 'response'))
+  );
+
+  return rows;
+}
+
+export function summarizeReconciliation(rows: ReconciliationRow[]): ReconciliationSummary {
+  return {
+    total: rows.length,
+    passed: rows.filter(r => r.status === 'pass').length,
+    failed: rows.filter(r => r.status === 'fail' || r.status === 'duplicate').length,
+    missing: rows.filter(r => r.status === 'missing-response' || r.status === 'missing-request').length,
+    maxBpsDifference: rows.reduce((max, r) => Math.max(max, r.bpsDifference ?? 0), 0)
+  };
+}
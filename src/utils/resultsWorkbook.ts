@@ -0,0 +1,131 @@
+import { CashFlow, XIRRResult } from './xirr';
+import { Period } from './periodResults';
+import { SheetCell, SheetData, cellRef, isoToExcelSerial, quoteSheetName, writeWorkbook } from './xlsx';
+import { parseAmount } from './localeFormats';
+import { compareDates } from './calendarDate';
+
+interface WorkbookFlow {
+  date: string;
+  amount: string;
+  description: string;
+  marketValue?: string;
+}
+
+export interface WorkbookResult {
+  label: string;
+  startDate: string;
+  endDate: string;
+  // The flows the XIRR was solved over; null means the whole Cash Flows sheet
+  cashFlows: CashFlow[] | null;
+  result: XIRRResult | null;
+  error?: string;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const CASH_FLOWS_SHEET = 'Cash Flows';
+const PERIODS_SHEET = 'Periods';
+const RESULTS_SHEET = 'Results';
+
+const header = (...labels: string[]): SheetCell[] => labels.map(value => ({ value, style: 'header' }));
+
+const dateCell = (date: string): SheetCell => {
+  const serial = isoToExcelSerial(date);
+  return serial === null ? date : { value: serial, style: 'date' };
+};
+
+const amountCell = (amount: string | undefined): SheetCell => {
+  const value = amount ? parseAmount(amount, 'comma-dot') : null;
+  return value === null ? null : { value, style: 'currency' };
+};
+
+/**
+ * Workbook for auditing results in Excel: the flows and periods as entered, and a Results sheet
+ * where each XIRR is a live =XIRR() formula next to the value this app calculated. Period
+ * results list their own flows (opening value, flows in the window, closing value) below the
+ * summary so each formula has a range to point at.
+ */
+export function buildResultsWorkbook(flows: WorkbookFlow[], periods: Period[], results: WorkbookResult[]): Uint8Array {
+  // Excel's XIRR discounts from the first row, so the flows are written in date order
+  const sortedFlows = flows
+    .filter(f => isoToExcelSerial(f.date) !== null && parseAmount(f.amount, 'comma-dot') !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const cashFlowsSheet: SheetData = {
+    name: CASH_FLOWS_SHEET,
+    columnWidths: [12, 16, 36, 16],
+    rows: [
+      header('Date', 'Amount', 'Description', 'Market Value'),
+      ...sortedFlows.map(f => [dateCell(f.date), amountCell(f.amount), f.description || null, amountCell(f.marketValue)])
+    ]
+  };
+
+  const periodsSheet: SheetData = {
+    name: PERIODS_SHEET,
+    columnWidths: [24, 12, 12, 16, 16, 20, 20],
+    rows: [
+      header('Period', 'Start Date', 'End Date', 'Start Value', 'End Value', 'Annualization', 'Benchmark'),
+      ...periods.map(p => [
+        p.label,
+        dateCell(p.startDate),
+        dateCell(p.endDate),
+        amountCell(p.startValue),
+        amountCell(p.endValue),
+        p.annualized ?? null,
+        p.benchmark ?? null
+      ])
+    ]
+  };
+
+  const resultRows: SheetCell[][] = [
+    header('Period', 'Start Date', 'End Date', 'XIRR (Excel)', 'XIRR (Calculated)', 'Difference (bps)', 'Notes')
+  ];
+  // Flow blocks follow the summary rows; nextBlockRow is the 1-based sheet row the next one starts on
+  const blockRows: SheetCell[][] = [];
+  let nextBlockRow = results.length + 2;
+  const flowsSheet = quoteSheetName(CASH_FLOWS_SHEET);
+
+  results.forEach((entry, index) => {
+    const row = index + 1;
+    let formula: string | null = null;
+
+    if (entry.cashFlows === null) {
+      const last = sortedFlows.length + 1;
+      formula = sortedFlows.length >= 2 ? `XIRR(${flowsSheet}!B2:B${last},${flowsSheet}!A2:A${last})` : null;
+    } else if (entry.cashFlows.length >= 2) {
+      const sorted = [...entry.cashFlows].sort((a, b) => compareDates(a.date, b.date));
+      blockRows.push([], [{ value: `${entry.label} cash flows`, style: 'header' }], header('Date', 'Amount', 'Description'));
+      const first = nextBlockRow + 3;
+      const last = first + sorted.length - 1;
+      sorted.forEach(f => blockRows.push([dateCell(f.date), { value: f.amount, style: 'currency' }, f.description || null]));
+      nextBlockRow = last + 1;
+      formula = `XIRR(B${first}:B${last},A${first}:A${last})`;
+    }
+
+    const notes = [
+      entry.error,
+      entry.result && entry.result.dayCount !== 'ACT/365F' && `Calculated with ${entry.result.dayCount}; Excel uses 365-day years`,
+      entry.result?.multipleRoots && 'Multiple IRRs; Excel may find a different one'
+    ].filter(Boolean).join('. ');
+
+    const excelRef = cellRef(row, 3);
+    const calculatedRef = cellRef(row, 4);
+    resultRows.push([
+      entry.label,
+      dateCell(entry.startDate),
+      dateCell(entry.endDate),
+      formula ? { formula, cached: entry.result?.xirr, style: 'percent' } : null,
+      entry.result ? { value: entry.result.xirr, style: 'percent' } : null,
+      formula && entry.result ? { formula: `(${excelRef}-${calculatedRef})*10000`, style: 'number' } : null,
+      notes || null
+    ]);
+  });
+
+  const resultsSheet: SheetData = {
+    name: RESULTS_SHEET,
+    columnWidths: [24, 12, 12, 16, 18, 16, 48],
+    rows: [...resultRows, ...blockRows]
+  };
+
+  return writeWorkbook([cashFlowsSheet, periodsSheet, resultsSheet]);
+}
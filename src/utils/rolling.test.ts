@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRollingXIRR } from './rolling';
+import { ValuedCashFlow } from './xirr';
+import { CalendarDate } from './calendarDate';
+
+const d = (text: string) => text as CalendarDate;
+
+// Portfolio values at the end of each month of 2024, from an investment of 1000 on 31 December 2023
+const VALUES = [1010, 1020, 1050, 1040, 1060, 1100, 1080, 1120, 1150, 1130, 1160, 1200];
+const MONTH_ENDS = [
+  '2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31', '2024-06-30',
+  '2024-07-31', '2024-08-31', '2024-09-30', '2024-10-31', '2024-11-30', '2024-12-31'
+];
+
+// June is valued mid-month instead of at its end; the final value is the last flow
+const FLOWS: ValuedCashFlow[] = [
+  { date: d('2023-12-31'), amount: -1000 },
+  ...MONTH_ENDS.slice(0, 11).map((date, i) => ({
+    date: d(date === '2024-06-30' ? '2024-06-14' : date),
+    amount: 0,
+    marketValue: VALUES[i]
+  })),
+  { date: d('2024-12-31'), amount: VALUES[11] }
+];
+
+describe('calculateRollingXIRR', () => {
+  const analysis = calculateRollingXIRR(FLOWS, 2, 1);
+
+  it('ends one window on each month-end, or on the latest valuation in a month without one', () => {
+    expect(analysis.windows.map(w => w.endDate)).toEqual([
+      '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31', '2024-06-14',
+      '2024-07-31', '2024-08-31', '2024-09-30', '2024-10-31', '2024-11-30', '2024-12-31'
+    ]);
+    expect(analysis.annualized).toBe(false);
+  });
+
+  it('opens a window on the valuation at its start date', () => {
+    const window = analysis.windows.find(w => w.endDate === '2024-12-31')!;
+
+    expect(window.startDate).toBe('2024-10-31');
+    expect(window.cashFlows[0]).toMatchObject({ date: '2024-10-31', amount: -1130, description: 'Opening Market Value' });
+    expect(window.value).toBeCloseTo(1200 / 1130 - 1, 9);
+  });
+
+  it('nets earlier flows into an opening balance when the start date has no valuation', () => {
+    const window = analysis.windows.find(w => w.endDate === '2024-08-31')!;
+
+    expect(window.startDate).toBe('2024-06-30');
+    expect(window.cashFlows[0]).toMatchObject({ amount: -1000, description: 'Opening Balance' });
+  });
+
+  it('summarises the valid windows', () => {
+    const values = analysis.windows.map(w => w.value!);
+    const sorted = [...values].sort((a, b) => a - b);
+
+    expect(analysis.stats.count).toBe(11);
+    expect(analysis.stats.failed).toBe(0);
+    expect(analysis.stats.min!.value).toBe(sorted[0]);
+    expect(analysis.stats.max!.value).toBe(sorted[10]);
+    expect(analysis.stats.median).toBe(sorted[5]);
+  });
+
+  it('steps back from the month-end before a mid-month final value', () => {
+    const flows: ValuedCashFlow[] = [
+      { date: d('2024-08-31'), amount: -100 },
+      { date: d('2024-09-15'), amount: 0, marketValue: 101 },
+      { date: d('2024-09-30'), amount: 0, marketValue: 102 },
+      { date: d('2024-10-15'), amount: 0, marketValue: 103 },
+      { date: d('2024-10-31'), amount: 0, marketValue: 104 },
+      { date: d('2024-11-15'), amount: 0, marketValue: 105 },
+      { date: d('2024-11-30'), amount: 0, marketValue: 106 },
+      { date: d('2024-12-15'), amount: 107 }
+    ];
+
+    expect(calculateRollingXIRR(flows, 1, 1).windows.map(w => w.endDate)).toEqual([
+      '2024-09-30', '2024-10-31', '2024-11-30', '2024-12-15'
+    ]);
+  });
+
+  it('counts steps without a valuation as skipped', () => {
+    const sparse = FLOWS.filter(f => f.date !== '2024-09-30');
+    const { windows, stats } = calculateRollingXIRR(sparse, 2, 1);
+
+    expect(windows.map(w => w.endDate)).not.toContain('2024-09-30');
+    expect(stats.skipped).toBe(1);
+  });
+});
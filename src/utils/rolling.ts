@@ -0,0 +1,155 @@
+import { CashFlow, DayCountConvention, ValuedCashFlow, XIRRMode, XIRRResult, calculateXIRR, filterCashFlowsByPeriod } from './xirr';
+import { CalendarDate, addMonths, calendarDate, compareDates, dateParts, daysInMonth } from './calendarDate';
+
+export interface RollingWindow {
+  startDate: CalendarDate;
+  endDate: CalendarDate;
+  cashFlows: CashFlow[];
+  result: XIRRResult | null;
+  value: number | null;
+}
+
+export interface RollingStats {
+  count: number;
+  failed: number;
+  skipped: number;
+  min: RollingWindow | null;
+  max: RollingWindow | null;
+  median: number | null;
+}
+
+export interface RollingAnalysis {
+  windowMonths: number;
+  stepMonths: number;
+  annualized: boolean;
+  windows: RollingWindow[];
+  stats: RollingStats;
+}
+
+export const ROLLING_WINDOW_OPTIONS: { value: number; label: string }[] = [
+  { value: 3, label: '3 months' },
+  { value: 6, label: '6 months' },
+  { value: 12, label: '12 months' },
+  { value: 24, label: '2 years' },
+  { value: 36, label: '3 years' },
+  { value: 60, label: '5 years' }
+];
+
+export const ROLLING_STEP_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: 'Monthly' },
+  { value: 3, label: 'Quarterly' },
+  { value: 6, label: 'Semi-annually' },
+  { value: 12, label: 'Annually' }
+];
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Last day of the month `months` months after the date's month
+function monthEnd(date: CalendarDate, months: number = 0): CalendarDate {
+  const { year, month } = dateParts(date);
+  const { year: targetYear, month: targetMonth } = dateParts(calendarDate(year, month + months, 1));
+  return calendarDate(targetYear, targetMonth, daysInMonth(targetYear, targetMonth));
+}
+
+export function calculateRollingXIRR(
+  cashFlows: ValuedCashFlow[],
+  windowMonths: number,
+  stepMonths: number,
+  dayCount: DayCountConvention = 'ACT/365F',
+  mode: XIRRMode = 'standard'
+): RollingAnalysis {
+  const sortedFlows = [...cashFlows].sort((a, b) => compareDates(a.date, b.date));
+  // Windows of a year or more are shown annualized, shorter ones as cumulative returns
+  const annualized = windowMonths >= 12;
+  const emptyStats: RollingStats = { count: 0, failed: 0, skipped: 0, min: null, max: null, median: null };
+
+  if (sortedFlows.length < 2 || windowMonths <= 0 || stepMonths <= 0) {
+    return { windowMonths, stepMonths, annualized, windows: [], stats: emptyStats };
+  }
+
+  const firstDate = sortedFlows[0].date;
+  const lastDate = sortedFlows[sortedFlows.length - 1].date;
+
+  // A window can only end (or start cleanly) where the portfolio value is known: on a flow
+  // carrying a pre-flow market value, or on the final flow, which is the ending value
+  const valuations = new Map<CalendarDate, number>();
+  for (const flow of sortedFlows) {
+    if (flow.marketValue !== undefined && !isNaN(flow.marketValue)) {
+      valuations.set(flow.date, flow.marketValue);
+    }
+  }
+  const valuationDates = [...valuations.keys()].sort(compareDates);
+
+  // After the final value, the grid steps back through month-ends, starting one step before a
+  // month-end final value or at the month-end before a mid-month one
+  const firstGridEnd = monthEnd(lastDate) === lastDate ? monthEnd(lastDate, -stepMonths) : monthEnd(lastDate, -1);
+  const windows: RollingWindow[] = [];
+  let skipped = 0;
+
+  for (let k = 0; ; k++) {
+    const gridEnd = k === 0 ? lastDate : monthEnd(firstGridEnd, -(k - 1) * stepMonths);
+    if (addMonths(gridEnd, -windowMonths) < firstDate) break;
+
+    let endDate: CalendarDate;
+    let windowFlows: CashFlow[];
+
+    if (k === 0) {
+      // The most recent window ends on the final value, like the trailing-period analysis
+      endDate = lastDate;
+      windowFlows = sortedFlows;
+    } else {
+      // Use the latest valuation in this step, which is the month-end one when there is one
+      const gridStart = monthEnd(gridEnd, -stepMonths);
+      const valuationDate = valuationDates.filter(d => d > gridStart && d <= gridEnd).pop();
+      if (valuationDate === undefined) {
+        skipped++;
+        continue;
+      }
+      endDate = valuationDate;
+      // The valuation is taken before any flow on the end date
+      windowFlows = [
+        ...sortedFlows.filter(f => f.date < valuationDate),
+        { date: valuationDate, amount: valuations.get(valuationDate)!, description: 'Market Value' }
+      ];
+    }
+
+    const startDate = addMonths(endDate, -windowMonths);
+    if (startDate < firstDate) {
+      skipped++;
+      continue;
+    }
+
+    const startValuation = valuations.get(startDate);
+    const flows = startValuation !== undefined
+      ? [
+          { date: startDate, amount: -Math.abs(startValuation), description: 'Opening Market Value' },
+          ...windowFlows.filter(f => f.date >= startDate)
+        ]
+      : filterCashFlowsByPeriod(windowFlows, endDate, windowMonths / 12);
+
+    const outcome = calculateXIRR(flows, { annualization: annualized ? 'always' : 'never', dayCount, mode });
+    const result = outcome.ok ? outcome.value : null;
+    const value = result && isFinite(result.reportedReturn) ? result.reportedReturn : null;
+
+    windows.push({ startDate, endDate, cashFlows: flows, result, value });
+  }
+
+  windows.reverse();
+
+  const valid = windows.filter(w => w.value !== null);
+  const stats: RollingStats = {
+    count: valid.length,
+    failed: windows.length - valid.length,
+    skipped,
+    min: valid.reduce<RollingWindow | null>((lo, w) => (!lo || w.value! < lo.value! ? w : lo), null),
+    max: valid.reduce<RollingWindow | null>((hi, w) => (!hi || w.value! > hi.value! ? w : hi), null),
+    median: median(valid.map(w => w.value!))
+  };
+
+  return { windowMonths, stepMonths, annualized, windows, stats };
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { CashFlow, DayCountConvention, ValuedCashFlow, XIRRErrorCode, calculateModifiedDietz, calculateSimpleDietz, calculateTWR, calculateXIRR, countSignChanges, yearFraction } from './xirr';
+import { CalendarDate } from './calendarDate';
+
+const d = (text: string) => text as CalendarDate;
+
+// One flow on 1 January of each year from 2021, so every period is exactly 365 days
+const yearly = (...amounts: number[]): CashFlow[] =>
+  amounts.map((amount, i) => ({ date: d(`${2021 + i}-01-01`), amount }));
+
+describe('yearFraction', () => {
+  it.each([
+    ['ACT/365F', 1.6547945205479453],
+    ['ACT/365.25', 1.6536618754277892],
+    ['ACT/ACT-ISDA', 1.6524964443446366],
+    ['30/360-US', 1.6472222222222221]
+  ] as [DayCountConvention, number][])('spans daylight saving changes under %s', (dayCount, expected) => {
+    expect(yearFraction(d('2023-03-10'), d('2024-11-03'), dayCount)).toBeCloseTo(expected, 12);
+  });
+
+  it('treats month-ends and year boundaries by the convention', () => {
+    expect(yearFraction(d('2024-02-29'), d('2025-02-28'), '30/360-US')).toBe(1);
+    expect(yearFraction(d('2023-12-31'), d('2024-01-01'), 'ACT/ACT-ISDA')).toBeCloseTo(1 / 365, 12);
+  });
+});
+
+// The textbook non-conventional schedule: NPV is zero at exactly 10% and 20%
+const TWO_ROOTS: CashFlow[] = [
+  { date: d('2021-01-01'), amount: -100 },
+  { date: d('2022-01-01'), amount: 230 },
+  { date: d('2023-01-01'), amount: -132 }
+];
+
+describe('calculateXIRR', () => {
+  it('gives the same rate in every timezone', () => {
+    const outcome = calculateXIRR([
+      { date: d('2024-03-10'), amount: -1000 },
+      { date: d('2024-11-03'), amount: 50 },
+      { date: d('2025-03-30'), amount: 1100 }
+    ]);
+
+    expect(outcome.ok).toBe(true);
+    if (outcome.ok) expect(outcome.value.xirr).toBeCloseTo(0.1443060853286589, 9);
+  });
+
+  it('solves non-conventional flows that end on a net loss', () => {
+    const outcome = calculateXIRR(TWO_ROOTS);
+    if (!outcome.ok) throw new Error(outcome.error.message);
+
+    expect(outcome.value.multipleRoots).toBe(true);
+    expect(outcome.value.roots.map(r => r.toFixed(6))).toEqual(['0.100000', '0.200000']);
+  });
+});
+
+describe('multiple IRR detection', () => {
+  it('counts sign changes in date order, ignoring zero flows', () => {
+    expect(countSignChanges([...TWO_ROOTS].reverse())).toBe(2);
+    expect(countSignChanges(yearly(-100, 0, -50, 0, 200))).toBe(1);
+  });
+
+  it('reports the unique root of flows that change sign once', () => {
+    const outcome = calculateXIRR(yearly(-100, -50, 200));
+    if (!outcome.ok) throw new Error(outcome.error.message);
+
+    expect(outcome.value.signChanges).toBe(1);
+    expect(outcome.value.roots).toEqual([outcome.value.xirr]);
+    expect(outcome.value.multipleRoots).toBe(false);
+    expect(outcome.value.warning).toBeUndefined();
+  });
+
+  it('lists every root and warns when there are two', () => {
+    const outcome = calculateXIRR(TWO_ROOTS);
+    if (!outcome.ok) throw new Error(outcome.error.message);
+
+    expect(outcome.value.signChanges).toBe(2);
+    expect(outcome.value.roots).toHaveLength(2);
+    expect(outcome.value.warning).toMatch(/NPV is zero at 2 different rates \(10\.00%, 20\.00%\)/);
+  });
+
+  it('ignores a root beyond the scanned range', () => {
+    // NPV is zero at 10% and at 2000%, which is above the 1000% scan limit
+    const outcome = calculateXIRR(yearly(-100, 2210, -2310));
+    if (!outcome.ok) throw new Error(outcome.error.message);
+
+    expect(outcome.value.signChanges).toBe(2);
+    expect(outcome.value.roots.map(r => r.toFixed(6))).toEqual(['0.100000']);
+    expect(outcome.value.multipleRoots).toBe(false);
+  });
+
+  it('fails when NPV never reaches zero', () => {
+    // -100 + 150x - 60x² has no real root, so no rate solves it
+    const outcome = calculateXIRR(yearly(-100, 150, -60));
+    expect(outcome.ok ? outcome.value.xirr : outcome.error.code).toBe('no-convergence');
+  });
+});
+
+describe('calculateXIRR errors', () => {
+  it.each([
+    ['too-few-flows', yearly(-100)],
+    ['all-zero', yearly(-100, 0, 0)],
+    ['no-sign-change', yearly(-100, -50)],
+    ['ending-value-negative', yearly(50, -100)],
+    ['no-convergence', yearly(-100, 150, -60)]
+  ] as [XIRRErrorCode, CashFlow[]][])('reports %s', (code, flows) => {
+    const outcome = calculateXIRR(flows);
+    if (outcome.ok) throw new Error(`Expected ${code} but got ${outcome.value.xirr}`);
+
+    expect(outcome.error.code).toBe(code);
+    expect(outcome.error.message).not.toBe('');
+  });
+});
+
+describe('calculateTWR', () => {
+  // Market values are taken just before each flow; negative amounts are contributions
+  const contribution: ValuedCashFlow = { date: d('2024-07-01'), amount: -500, marketValue: 1100 };
+
+  it('chain-links the sub-periods between valuations', () => {
+    const twr = calculateTWR(d('2024-01-01'), d('2024-12-31'), 1000, 1760, [contribution])!;
+
+    expect(twr.subPeriodReturns.map(r => r.toFixed(9))).toEqual(['0.100000000', '0.100000000']);
+    expect(twr.twr).toBeCloseTo(0.21, 12);
+  });
+
+  it('handles a flow on the period end date', () => {
+    const withdrawal: ValuedCashFlow = { date: d('2024-12-31'), amount: 200, marketValue: 1760 };
+    const twr = calculateTWR(d('2024-01-01'), d('2024-12-31'), 1000, 1560, [contribution, withdrawal])!;
+
+    expect(twr.subPeriodReturns.map(r => r.toFixed(9))).toEqual(['0.100000000', '0.100000000', '0.000000000']);
+    expect(twr.twr).toBeCloseTo(0.21, 12);
+  });
+
+  it('ignores flows outside the period, including on the start date', () => {
+    const before: ValuedCashFlow = { date: d('2024-01-01'), amount: -1000 };
+    const twr = calculateTWR(d('2024-01-01'), d('2024-12-31'), 1000, 1760, [before, contribution])!;
+    expect(twr.twr).toBeCloseTo(0.21, 12);
+  });
+
+  it('rejects a flow without a valuation or a sub-period that starts at zero or below', () => {
+    const unvalued: ValuedCashFlow = { date: d('2024-07-01'), amount: -500 };
+    const overdrawn: ValuedCashFlow = { date: d('2024-07-01'), amount: 1200, marketValue: 1100 };
+
+    expect(calculateTWR(d('2024-01-01'), d('2024-12-31'), 1000, 1760, [unvalued])).toBeNull();
+    expect(calculateTWR(d('2024-01-01'), d('2024-12-31'), 0, 1760, [contribution])).toBeNull();
+    expect(calculateTWR(d('2024-01-01'), d('2024-12-31'), 1000, 0, [overdrawn])).toBeNull();
+  });
+});
+
+describe('Dietz returns', () => {
+  // 500 contributed on 31 March, 275 of the year's 365 days before the end
+  const flows: CashFlow[] = [{ date: d('2024-03-31'), amount: -500 }];
+
+  it('weights each flow by the days it was invested for', () => {
+    const dietz = calculateModifiedDietz(d('2024-01-01'), d('2024-12-31'), 1000, 1700, flows)!;
+
+    expect(dietz.netContributions).toBe(500);
+    expect(dietz.averageCapital).toBeCloseTo(1000 + 500 * 275 / 365, 9);
+    expect(dietz.rate).toBeCloseTo(200 / (1000 + 500 * 275 / 365), 12);
+  });
+
+  it('assumes mid-period flows for Simple Dietz, whatever their dates', () => {
+    const simple = calculateSimpleDietz(d('2024-01-01'), d('2024-12-31'), 1000, 1700, flows)!;
+    const modified = calculateModifiedDietz(d('2024-01-01'), d('2024-12-31'), 1000, 1700, flows)!;
+
+    expect(simple.rate).toBeCloseTo(200 / 1250, 12);
+    expect(simple.rate - modified.rate).toBeGreaterThan(0.01);
+  });
+
+  it('agrees with Simple Dietz for a flow at the midpoint', () => {
+    const midpoint: CashFlow[] = [{ date: d('2024-07-02'), amount: -500 }];
+    const simple = calculateSimpleDietz(d('2024-01-01'), d('2024-12-31'), 1000, 1700, midpoint)!;
+    const modified = calculateModifiedDietz(d('2024-01-01'), d('2024-12-31'), 1000, 1700, midpoint)!;
+
+    expect(modified.rate).toBeCloseTo(simple.rate, 2);
+  });
+});
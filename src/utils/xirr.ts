@@ -1,9 +1,45 @@
+import { CalendarDate, addMonths, addYears, calendarDate, compareDates, dateParts, daysBetween, isCalendarDate, isLeapYear } from './calendarDate';
+
 export interface CashFlow {
-  date: Date;
+  date: CalendarDate;
   amount: number;
   description?: string;
 }
 
+export type AnnualizationPolicy = 'always' | 'never' | 'at-least-one-year' | 'more-than-one-year';
+
+export const ANNUALIZATION_POLICIES: { value: AnnualizationPolicy; label: string }[] = [
+  { value: 'at-least-one-year', label: 'At least 1 year' },
+  { value: 'more-than-one-year', label: 'More than 1 year' },
+  { value: 'always', label: 'Always' },
+  { value: 'never', label: 'Never' }
+];
+
+export type DayCountConvention = 'ACT/365F' | 'ACT/365.25' | 'ACT/ACT-ISDA' | '30/360-US' | '30E/360';
+
+export const DAY_COUNT_CONVENTIONS: { value: DayCountConvention; label: string }[] = [
+  { value: 'ACT/365F', label: 'ACT/365 Fixed' },
+  { value: 'ACT/365.25', label: 'ACT/365.25' },
+  { value: 'ACT/ACT-ISDA', label: 'ACT/ACT ISDA' },
+  { value: '30/360-US', label: '30/360 US' },
+  { value: '30E/360', label: '30E/360' }
+];
+
+export type XIRRMode = 'standard' | 'excel';
+
+export const XIRR_MODES: { value: XIRRMode; label: string; description: string }[] = [
+  { value: 'standard', label: 'Standard', description: 'Sorts flows by date, uses the selected day count and reports near break-even results as 0%' },
+  { value: 'excel', label: 'Excel-compatible', description: "Matches Excel's XIRR: discounts from the first flow entered over 365-day years, starting from a 10% guess" }
+];
+
+export interface XIRROptions {
+  annualization?: AnnualizationPolicy;
+  dayCount?: DayCountConvention;
+  // 'excel' reproduces Excel's XIRR; the day count is then always ACT/365 and `guess` seeds Newton-Raphson
+  mode?: XIRRMode;
+  guess?: number;
+}
+
 export interface MethodResult {
   rate: number;
   ratePercent: string;
@@ -18,8 +54,13 @@ export interface XIRRResult {
   xirrPercent: string;
   simpleReturn: number;
   simpleReturnPercent: string;
+  reportedReturn: number;
+  reportedReturnPercent: string;
   annualized: boolean;
+  annualizationPolicy: AnnualizationPolicy;
+  dayCount: DayCountConvention;
   totalDays: number;
+  years: number;
   netCashFlow: number;
   firstCashFlow: number;
   lastCashFlow: number;
@@ -30,38 +71,191 @@ export interface XIRRResult {
   hasDifference: boolean;
   difference: number;
   differencePercent: string;
+  signChanges: number;
+  roots: number[];
+  multipleRoots: boolean;
+  warning?: string;
+}
+
+export type XIRRErrorCode =
+  | 'too-few-flows'
+  | 'all-zero'
+  | 'no-sign-change'
+  | 'ending-value-negative'
+  | 'date-before-start'
+  | 'invalid-input'
+  | 'no-convergence';
+
+export interface XIRRError {
+  code: XIRRErrorCode;
+  message: string;
+  // Set in Excel mode to the error value Excel's XIRR would show
+  excel?: ExcelErrorValue;
+}
+
+export type XIRROutcome = { ok: true; value: XIRRResult } | { ok: false; error: XIRRError };
+
+const XIRR_ERROR_MESSAGES: Record<XIRRErrorCode, string> = {
+  'too-few-flows': 'At least two cash flows are needed',
+  'all-zero': 'At least two cash flows must have a non-zero amount',
+  'no-sign-change': 'No sign change: the cash flows need at least one investment (negative) and one return (positive)',
+  'ending-value-negative': 'Ending value negative: the final cash flow is an outflow and the investment lost money overall, so no meaningful rate exists',
+  'date-before-start': 'A cash flow is dated before the first one entered',
+  'invalid-input': 'An amount, date or guess is not a valid number',
+  'no-convergence': 'No rate makes the NPV zero: neither Newton-Raphson nor Brent\'s method converged'
+};
+
+function xirrError(code: XIRRErrorCode): XIRROutcome {
+  return { ok: false, error: { code, message: XIRR_ERROR_MESSAGES[code] } };
+}
+
+export interface ValuedCashFlow extends CashFlow {
+  // Portfolio market value on the flow date, immediately before the flow
+  marketValue?: number;
+}
+
+export interface TWRResult {
+  twr: number;
+  twrPercent: string;
+  annualizedTWR: number;
+  annualizedTWRPercent: string;
+  subPeriodReturns: number[];
+  years: number;
+}
+
+export interface DietzResult {
+  rate: number;
+  ratePercent: string;
+  method: string;
+  netContributions: number;
+  averageCapital: number;
+}
+
+export interface MultiplesResult {
+  paidInCapital: number;
+  distributions: number;
+  residualValue: number;
+  dpi: number;
+  rvpi: number;
+  tvpi: number;
+}
+
+export interface MIRRResult {
+  mirr: number;
+  mirrPercent: string;
+  financeRate: number;
+  reinvestmentRate: number;
+  presentValueOutflows: number;
+  futureValueInflows: number;
+  years: number;
+}
+
+function dateDiffInDays(date1: CalendarDate, date2: CalendarDate): number {
+  return Math.abs(daysBetween(date1, date2));
+}
+
+function isLastDayOfFebruary(date: CalendarDate): boolean {
+  const { year, month, day } = dateParts(date);
+  return month === 2 && day === (isLeapYear(year) ? 29 : 28);
+}
+
+function days360(y1: number, m1: number, d1: number, y2: number, m2: number, d2: number): number {
+  return 360 * (y2 - y1) + 30 * (m2 - m1) + (d2 - d1);
+}
+
+export function yearFraction(startDate: CalendarDate, endDate: CalendarDate, dayCount: DayCountConvention = 'ACT/365F'): number {
+  switch (dayCount) {
+    case 'ACT/365.25':
+      return dateDiffInDays(startDate, endDate) / 365.25;
+
+    case 'ACT/ACT-ISDA': {
+      // Days falling in leap years count as 1/366, all others as 1/365
+      const [from, to] = startDate <= endDate ? [startDate, endDate] : [endDate, startDate];
+      let fraction = 0;
+      let cursor = from;
+      const lastYear = dateParts(to).year;
+      for (let year = dateParts(from).year; year <= lastYear; year++) {
+        const yearEnd = year === lastYear ? to : calendarDate(year + 1, 1, 1);
+        fraction += dateDiffInDays(cursor, yearEnd) / (isLeapYear(year) ? 366 : 365);
+        cursor = yearEnd;
+      }
+      return fraction;
+    }
+
+    case '30/360-US': {
+      const [from, to] = startDate <= endDate ? [startDate, endDate] : [endDate, startDate];
+      const start = dateParts(from);
+      const end = dateParts(to);
+      let d1 = start.day;
+      let d2 = end.day;
+      if (isLastDayOfFebruary(from) && isLastDayOfFebruary(to)) d2 = 30;
+      if (isLastDayOfFebruary(from)) d1 = 30;
+      if (d2 === 31 && d1 >= 30) d2 = 30;
+      if (d1 === 31) d1 = 30;
+      return days360(start.year, start.month, d1, end.year, end.month, d2) / 360;
+    }
+
+    case '30E/360': {
+      const [from, to] = startDate <= endDate ? [startDate, endDate] : [endDate, startDate];
+      const start = dateParts(from);
+      const end = dateParts(to);
+      return days360(start.year, start.month, Math.min(start.day, 30), end.year, end.month, Math.min(end.day, 30)) / 360;
+    }
+
+    default:
+      return dateDiffInDays(startDate, endDate) / 365;
+  }
+}
+
+export function parseAnnualizationPolicy(value: unknown): AnnualizationPolicy | undefined {
+  return ANNUALIZATION_POLICIES.find(p => p.value === value)?.value;
+}
+
+function isAnnualized(policy: AnnualizationPolicy, startDate: CalendarDate, endDate: CalendarDate): boolean {
+  if (policy === 'always') return true;
+  if (policy === 'never') return false;
+
+  // Compare against the calendar anniversary rather than a fixed day count so
+  // leap years don't move the threshold
+  const anniversary = addYears(startDate, 1);
+
+  return policy === 'at-least-one-year' ? endDate >= anniversary : endDate > anniversary;
 }
 
-function dateDiffInDays(date1: Date, date2: Date): number {
-  const msPerDay = 1000 * 60 * 60 * 24;
-  const utc1 = Date.UTC(date1.getFullYear(), date1.getMonth(), date1.getDate());
-  const utc2 = Date.UTC(date2.getFullYear(), date2.getMonth(), date2.getDate());
-  return Math.abs((utc2 - utc1) / msPerDay);
+// Year fractions only depend on the dates, so they are computed once per flow set
+// rather than on every solver iteration
+interface TimedFlow {
+  amount: number;
+  years: number;
+}
+
+function toTimedFlows(cashFlows: CashFlow[], startDate: CalendarDate, dayCount: DayCountConvention): TimedFlow[] {
+  return cashFlows.map(flow => ({
+    amount: flow.amount,
+    years: yearFraction(startDate, flow.date, dayCount)
+  }));
 }
 
-function calculateNPV(rate: number, cashFlows: CashFlow[], startDate: Date): number {
+function calculateNPV(rate: number, flows: TimedFlow[]): number {
+  const logBase = Math.log1p(rate);
   let npv = 0;
-  for (const flow of cashFlows) {
-    const days = dateDiffInDays(startDate, flow.date);
-    const years = days / 365;
-    npv += flow.amount / Math.pow(1 + rate, years);
+  for (const flow of flows) {
+    npv += flow.amount * Math.exp(-flow.years * logBase);
   }
   return npv;
 }
 
-function calculateDerivativeNPV(rate: number, cashFlows: CashFlow[], startDate: Date): number {
+function calculateDerivativeNPV(rate: number, flows: TimedFlow[]): number {
+  const logBase = Math.log1p(rate);
   let dnpv = 0;
-  for (const flow of cashFlows) {
-    const days = dateDiffInDays(startDate, flow.date);
-    const years = days / 365;
-    dnpv += (-years * flow.amount) / Math.pow(1 + rate, years + 1);
+  for (const flow of flows) {
+    dnpv += -flow.years * flow.amount * Math.exp(-(flow.years + 1) * logBase);
   }
   return dnpv;
 }
 
 function calculateWithNewtonRaphson(
-  cashFlows: CashFlow[],
-  startDate: Date,
+  flows: TimedFlow[],
   initialGuess: number = 0.1
 ): MethodResult {
   let rate = initialGuess;
@@ -71,14 +265,14 @@ function calculateWithNewtonRaphson(
   let converged = false;
 
   for (iterations = 0; iterations < maxIterations; iterations++) {
-    const npv = calculateNPV(rate, cashFlows, startDate);
+    const npv = calculateNPV(rate, flows);
 
     if (Math.abs(npv) < precision) {
       converged = true;
       break;
     }
 
-    const dnpv = calculateDerivativeNPV(rate, cashFlows, startDate);
+    const dnpv = calculateDerivativeNPV(rate, flows);
 
     if (dnpv === 0) {
       break;
@@ -93,7 +287,7 @@ function calculateWithNewtonRaphson(
     }
   }
 
-  const finalNPV = calculateNPV(rate, cashFlows, startDate);
+  const finalNPV = calculateNPV(rate, flows);
 
   return {
     rate,
@@ -106,8 +300,7 @@ function calculateWithNewtonRaphson(
 }
 
 function calculateWithBrent(
-  cashFlows: CashFlow[],
-  startDate: Date,
+  flows: TimedFlow[],
   lowerBound: number = -0.99,
   upperBound: number = 10.0
 ): MethodResult {
@@ -119,8 +312,8 @@ function calculateWithBrent(
   let d = b - a;
   let e = d;
 
-  let fa = calculateNPV(a, cashFlows, startDate);
-  let fb = calculateNPV(b, cashFlows, startDate);
+  let fa = calculateNPV(a, flows);
+  let fb = calculateNPV(b, flows);
   let fc = fa;
 
   let iterations = 0;
@@ -129,8 +322,24 @@ function calculateWithBrent(
   if (fa * fb >= 0) {
     a = -0.5;
     b = 5.0;
-    fa = calculateNPV(a, cashFlows, startDate);
-    fb = calculateNPV(b, cashFlows, startDate);
+    fa = calculateNPV(a, flows);
+    fb = calculateNPV(b, flows);
+    c = a;
+    fc = fa;
+    d = b - a;
+    e = d;
+  }
+
+  // Without a sign change between the bounds there is no root to close in on
+  if (!(fa * fb <= 0)) {
+    return {
+      rate: b,
+      ratePercent: (b * 100).toFixed(6),
+      iterations: 0,
+      method: "Brent's Method",
+      converged: false,
+      finalNPV: fb
+    };
   }
 
   for (iterations = 0; iterations < maxIterations; iterations++) {
@@ -194,7 +403,7 @@ function calculateWithBrent(
       b += m >= 0 ? tol : -tol;
     }
 
-    fb = calculateNPV(b, cashFlows, startDate);
+    fb = calculateNPV(b, flows);
 
     if (fb * fc > 0) {
       c = a;
@@ -204,7 +413,7 @@ function calculateWithBrent(
     }
   }
 
-  const finalNPV = calculateNPV(b, cashFlows, startDate);
+  const finalNPV = calculateNPV(b, flows);
 
   return {
     rate: b,
@@ -216,23 +425,196 @@ function calculateWithBrent(
   };
 }
 
-export function calculateXIRR(cashFlows: CashFlow[]): XIRRResult | null {
+export function countSignChanges(cashFlows: CashFlow[]): number {
+  const signs = [...cashFlows]
+    .sort((a, b) => compareDates(a.date, b.date))
+    .filter(f => f.amount !== 0)
+    .map(f => Math.sign(f.amount));
+
+  let changes = 0;
+  for (let i = 1; i < signs.length; i++) {
+    if (signs[i] !== signs[i - 1]) changes++;
+  }
+  return changes;
+}
+
+function findAllRoots(
+  flows: TimedFlow[],
+  lowerBound: number = -0.99,
+  upperBound: number = 10.0,
+  steps: number = 400
+): number[] {
+  // Sample evenly in log(1 + rate) so the grid is dense near zero where real-world IRRs live
+  const logLower = Math.log(1 + lowerBound);
+  const logUpper = Math.log(1 + upperBound);
+  const roots: number[] = [];
+
+  let prevRate = lowerBound;
+  let prevNPV = calculateNPV(prevRate, flows);
+
+  for (let i = 1; i <= steps; i++) {
+    const rate = Math.exp(logLower + (logUpper - logLower) * i / steps) - 1;
+    const npv = calculateNPV(rate, flows);
+
+    if (npv === 0) {
+      roots.push(rate);
+    } else if (prevNPV !== 0 && Math.sign(npv) !== Math.sign(prevNPV) && isFinite(npv) && isFinite(prevNPV)) {
+      const refined = calculateWithBrent(flows, prevRate, rate);
+      if (refined.converged) {
+        roots.push(refined.rate);
+      }
+    }
+
+    prevRate = rate;
+    prevNPV = npv;
+  }
+
+  return roots.filter((root, i) => i === 0 || Math.abs(root - roots[i - 1]) > 0.000001);
+}
+
+export type ExcelErrorValue = '#NUM!' | '#VALUE!';
+
+export type ExcelErrorReason =
+  | 'length-mismatch'
+  | 'invalid-value'
+  | 'invalid-date'
+  | 'date-before-start'
+  | 'no-sign-change'
+  | 'invalid-rate'
+  | 'rate-out-of-range'
+  | 'no-convergence';
+
+export interface ExcelError {
+  value: ExcelErrorValue;
+  reason: ExcelErrorReason;
+  message: string;
+}
+
+export type ExcelResult<T> = { ok: true; value: T } | { ok: false; error: ExcelError };
+
+const EXCEL_ERRORS: Record<ExcelErrorReason, { value: ExcelErrorValue; message: string }> = {
+  'length-mismatch': { value: '#NUM!', message: 'Values and dates must have the same number of entries' },
+  'invalid-value': { value: '#VALUE!', message: 'Every value must be a number' },
+  'invalid-date': { value: '#VALUE!', message: 'Every date must be a valid date' },
+  'date-before-start': { value: '#NUM!', message: 'No date may precede the first date' },
+  'no-sign-change': { value: '#NUM!', message: 'Values must include at least one positive and one negative amount' },
+  'invalid-rate': { value: '#VALUE!', message: 'The rate must be a number' },
+  'rate-out-of-range': { value: '#NUM!', message: 'The rate must be greater than -100%' },
+  'no-convergence': { value: '#NUM!', message: 'No result within 100 iterations; try a different guess' }
+};
+
+// Matches Excel's iteration limit and its "accurate within 0.000001 percent" stopping rule
+const EXCEL_MAX_ITERATIONS = 100;
+const EXCEL_PRECISION = 1e-8;
+
+function excelError<T>(reason: ExcelErrorReason): ExcelResult<T> {
+  return { ok: false, error: { reason, ...EXCEL_ERRORS[reason] } };
+}
+
+const EXCEL_ERROR_CODES: Record<ExcelErrorReason, XIRRErrorCode> = {
+  'length-mismatch': 'invalid-input',
+  'invalid-value': 'invalid-input',
+  'invalid-date': 'invalid-input',
+  'date-before-start': 'date-before-start',
+  'no-sign-change': 'no-sign-change',
+  'invalid-rate': 'invalid-input',
+  'rate-out-of-range': 'invalid-input',
+  'no-convergence': 'no-convergence'
+};
+
+function fromExcelError(error: ExcelError): XIRROutcome {
+  return {
+    ok: false,
+    error: { code: EXCEL_ERROR_CODES[error.reason], message: `${error.message} (Excel returns ${error.value})`, excel: error.value }
+  };
+}
+
+// Excel times every flow from the first date entered, which need not be the earliest
+function toExcelFlows(values: number[], dates: CalendarDate[]): ExcelResult<TimedFlow[]> {
+  if (values.length !== dates.length) return excelError('length-mismatch');
+  if (values.some(v => typeof v !== 'number' || !isFinite(v))) return excelError('invalid-value');
+  if (dates.some(d => !isCalendarDate(d))) return excelError('invalid-date');
+
+  const start = dates[0];
+  const flows = values.map((amount, i) => ({
+    amount,
+    years: daysBetween(start, dates[i]) / 365
+  }));
+
+  if (flows.some(f => f.years < 0)) return excelError('date-before-start');
+  return { ok: true, value: flows };
+}
+
+export function excelXNPV(rate: number, values: number[], dates: CalendarDate[]): ExcelResult<number> {
+  if (typeof rate !== 'number' || isNaN(rate)) return excelError('invalid-rate');
+  if (rate <= -1) return excelError('rate-out-of-range');
+
+  const flows = toExcelFlows(values, dates);
+  if (!flows.ok) return flows;
+
+  return { ok: true, value: calculateNPV(rate, flows.value) };
+}
+
+/**
+ * Excel's XIRR: Newton-Raphson from `guess` with no bracketing fallback, so a poor guess gives
+ * #NUM! (or a different root when there are several) exactly as it would in a spreadsheet.
+ */
+export function excelXIRR(values: number[], dates: CalendarDate[], guess: number = 0.1): ExcelResult<MethodResult> {
+  const flows = toExcelFlows(values, dates);
+  if (!flows.ok) return flows;
+  if (!values.some(v => v > 0) || !values.some(v => v < 0)) return excelError('no-sign-change');
+  if (typeof guess !== 'number' || isNaN(guess)) return excelError('invalid-rate');
+  if (guess <= -1) return excelError('rate-out-of-range');
+
+  let rate = guess;
+  for (let iteration = 1; iteration <= EXCEL_MAX_ITERATIONS; iteration++) {
+    const npv = calculateNPV(rate, flows.value);
+    const dnpv = calculateDerivativeNPV(rate, flows.value);
+    if (!isFinite(npv) || !isFinite(dnpv) || dnpv === 0) break;
+
+    const next = rate - npv / dnpv;
+    if (!isFinite(next) || next <= -1) break;
+
+    if (Math.abs(next - rate) < EXCEL_PRECISION) {
+      return {
+        ok: true,
+        value: {
+          rate: next,
+          ratePercent: (next * 100).toFixed(6),
+          iterations: iteration,
+          method: 'Excel XIRR',
+          converged: true,
+          finalNPV: calculateNPV(next, flows.value)
+        }
+      };
+    }
+    rate = next;
+  }
+
+  return excelError('no-convergence');
+}
+
+export function calculateXIRR(cashFlows: CashFlow[], options: XIRROptions = {}): XIRROutcome {
   if (cashFlows.length < 2) {
-    return null;
+    return xirrError('too-few-flows');
   }
 
-  const sortedFlows = [...cashFlows].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const sortedFlows = [...cashFlows].sort((a, b) => compareDates(a.date, b.date));
 
   // Filter out $0 cash flows to get accurate time period (days actually invested)
   const nonZeroFlows = sortedFlows.filter(f => f.amount !== 0);
 
   if (nonZeroFlows.length < 2) {
-    return null;
+    return xirrError('all-zero');
   }
 
   const startDate = nonZeroFlows[0].date;
   const endDate = nonZeroFlows[nonZeroFlows.length - 1].date;
   const totalDays = dateDiffInDays(startDate, endDate);
+  const mode = options.mode ?? 'standard';
+  const dayCount = mode === 'excel' ? 'ACT/365F' : options.dayCount ?? 'ACT/365F';
+
+  const timedFlows = toTimedFlows(sortedFlows, startDate, dayCount);
 
   const netCashFlow = sortedFlows.reduce((sum, flow) => sum + flow.amount, 0);
   const outflows = sortedFlows.filter(f => f.amount < 0);
@@ -243,13 +625,22 @@ export function calculateXIRR(cashFlows: CashFlow[]): XIRRResult | null {
   const firstCashFlow = nonZeroFlows[0].amount;
   const lastCashFlow = nonZeroFlows[nonZeroFlows.length - 1].amount;
 
-  if (lastCashFlow < 0 && netCashFlow < 0) {
-    return null;
+  const signChanges = countSignChanges(sortedFlows);
+
+  if (mode === 'standard') {
+    if (outflows.length === 0 || inflows.length === 0) {
+      return xirrError('no-sign-change');
+    }
+    // Non-conventional flows, such as -100/+230/-132, can end on a net loss and still have IRRs
+    if (signChanges <= 1 && lastCashFlow < 0 && netCashFlow < 0) {
+      return xirrError('ending-value-negative');
+    }
   }
 
   // Special case: Break-even scenario (net cash flow is ~$0)
   // This means the ending value equals all investments - return is 0%
-  const isBreakEven = Math.abs(netCashFlow) < 0.01;
+  // Excel has no such shortcut and solves for the (tiny) rate instead
+  const isBreakEven = mode === 'standard' && Math.abs(netCashFlow) < 0.01;
   let rate: number;
   let newtonResult: MethodResult;
   let brentResult: MethodResult;
@@ -273,9 +664,23 @@ export function calculateXIRR(cashFlows: CashFlow[]): XIRRResult | null {
       converged: true,
       finalNPV: 0
     };
+  } else if (mode === 'excel') {
+    // Excel takes the flows in the order entered, so keep the caller's order rather than sortedFlows
+    const excel = excelXIRR(cashFlows.map(f => f.amount), cashFlows.map(f => f.date), options.guess);
+    if (!excel.ok) {
+      return fromExcelError(excel.error);
+    }
+    newtonResult = excel.value;
+    // Still run Brent so the method comparison shows where a bracketing solver would land
+    brentResult = calculateWithBrent(timedFlows);
+    rate = newtonResult.rate;
   } else {
-    newtonResult = calculateWithNewtonRaphson(sortedFlows, startDate);
-    brentResult = calculateWithBrent(sortedFlows, startDate);
+    newtonResult = calculateWithNewtonRaphson(timedFlows);
+    brentResult = calculateWithBrent(timedFlows);
+
+    if (!newtonResult.converged && !brentResult.converged) {
+      return xirrError('no-convergence');
+    }
 
     const bestResult = Math.abs(newtonResult.finalNPV) < Math.abs(brentResult.finalNPV) ? newtonResult : brentResult;
     rate = bestResult.rate;
@@ -284,33 +689,261 @@ export function calculateXIRR(cashFlows: CashFlow[]): XIRRResult | null {
   const difference = Math.abs(newtonResult.rate - brentResult.rate);
   const hasDifference = difference > 0.00001;
 
-  const annualized = totalDays > 365;
-  const years = totalDays / 365;
+  // Descartes' rule of signs: a single sign change guarantees a unique IRR, so
+  // only scan the NPV curve when there could be more than one
+  const roots = signChanges > 1 ? findAllRoots(timedFlows) : [rate];
+  const multipleRoots = roots.length > 1;
+  const warning = multipleRoots
+    ? `Cash flows change sign ${signChanges} times and NPV is zero at ${roots.length} different rates (${roots.map(r => `${(r * 100).toFixed(2)}%`).join(', ')}). The IRR is not unique.`
+    : undefined;
+
+  const annualizationPolicy = options.annualization ?? 'at-least-one-year';
+  const annualized = isAnnualized(annualizationPolicy, startDate, endDate);
+  const years = yearFraction(startDate, endDate, dayCount);
   const simpleReturn = Math.pow(1 + rate, years) - 1;
+  const reportedReturn = annualized ? rate : simpleReturn;
+
+  return {
+    ok: true,
+    value: {
+      xirr: rate,
+      xirrPercent: (rate * 100).toFixed(2),
+      simpleReturn,
+      simpleReturnPercent: (simpleReturn * 100).toFixed(2),
+      reportedReturn,
+      reportedReturnPercent: (reportedReturn * 100).toFixed(2),
+      annualized,
+      annualizationPolicy,
+      dayCount,
+      totalDays,
+      years,
+      netCashFlow,
+      firstCashFlow,
+      lastCashFlow,
+      totalInflows,
+      totalOutflows,
+      newtonRaphson: newtonResult,
+      brent: brentResult,
+      hasDifference,
+      difference,
+      differencePercent: (difference * 100).toFixed(6),
+      signChanges,
+      roots,
+      multipleRoots,
+      warning
+    }
+  };
+}
+
+export interface NPVPoint {
+  rate: number;
+  npv: number;
+}
+
+/**
+ * NPV at each of the given rates, discounted to the first non-zero flow with the same day count
+ * as calculateXIRR, so the zero crossings are the rates it solves for.
+ */
+export function calculateNPVProfile(cashFlows: CashFlow[], rates: number[], dayCount: DayCountConvention = 'ACT/365F'): NPVPoint[] {
+  const sortedFlows = [...cashFlows].sort((a, b) => compareDates(a.date, b.date));
+  const firstFlow = sortedFlows.find(f => f.amount !== 0);
+  const timedFlows = firstFlow ? toTimedFlows(sortedFlows, firstFlow.date, dayCount) : [];
+  return rates.map(rate => ({ rate, npv: calculateNPV(rate, timedFlows) }));
+}
+
+export function calculateXMIRR(
+  cashFlows: CashFlow[],
+  financeRate: number,
+  reinvestmentRate: number,
+  dayCount: DayCountConvention = 'ACT/365F'
+): MIRRResult | null {
+  const nonZeroFlows = [...cashFlows]
+    .sort((a, b) => compareDates(a.date, b.date))
+    .filter(f => f.amount !== 0);
+
+  if (nonZeroFlows.length < 2 || financeRate <= -1 || reinvestmentRate <= -1) {
+    return null;
+  }
+
+  const startDate = nonZeroFlows[0].date;
+  const endDate = nonZeroFlows[nonZeroFlows.length - 1].date;
+  const years = yearFraction(startDate, endDate, dayCount);
+
+  if (years <= 0) {
+    return null;
+  }
+
+  // Outflows are financed at the finance rate (discounted to the first date),
+  // inflows are reinvested at the reinvestment rate (compounded to the last date)
+  let presentValueOutflows = 0;
+  let futureValueInflows = 0;
+  for (const flow of nonZeroFlows) {
+    if (flow.amount < 0) {
+      presentValueOutflows += flow.amount / Math.pow(1 + financeRate, yearFraction(startDate, flow.date, dayCount));
+    } else {
+      futureValueInflows += flow.amount * Math.pow(1 + reinvestmentRate, yearFraction(flow.date, endDate, dayCount));
+    }
+  }
+
+  if (presentValueOutflows === 0 || futureValueInflows === 0) {
+    return null;
+  }
+
+  const mirr = Math.pow(futureValueInflows / -presentValueOutflows, 1 / years) - 1;
+
+  return {
+    mirr,
+    mirrPercent: (mirr * 100).toFixed(2),
+    financeRate,
+    reinvestmentRate,
+    presentValueOutflows,
+    futureValueInflows,
+    years
+  };
+}
+
+export function calculateTWR(
+  startDate: CalendarDate,
+  endDate: CalendarDate,
+  startValue: number,
+  endValue: number,
+  flows: ValuedCashFlow[],
+  dayCount: DayCountConvention = 'ACT/365F'
+): TWRResult | null {
+  const periodFlows = flows
+    .filter(f => f.date > startDate && f.date <= endDate)
+    .sort((a, b) => compareDates(a.date, b.date));
+
+  // Every external flow needs a valuation to break the period into sub-periods
+  if (startValue <= 0 || periodFlows.some(f => f.marketValue === undefined || isNaN(f.marketValue))) {
+    return null;
+  }
+
+  const subPeriodReturns: number[] = [];
+  let beginValue = startValue;
+
+  for (const flow of periodFlows) {
+    if (beginValue <= 0) return null;
+    subPeriodReturns.push(flow.marketValue! / beginValue - 1);
+    // Negative amounts are contributions into the portfolio, positive amounts are withdrawals
+    beginValue = flow.marketValue! - flow.amount;
+  }
+
+  if (beginValue <= 0) return null;
+  subPeriodReturns.push(endValue / beginValue - 1);
+
+  const twr = subPeriodReturns.reduce((growth, r) => growth * (1 + r), 1) - 1;
+  const years = yearFraction(startDate, endDate, dayCount);
+  const annualizedTWR = years > 0 ? Math.pow(1 + twr, 1 / years) - 1 : twr;
+
+  return {
+    twr,
+    twrPercent: (twr * 100).toFixed(2),
+    annualizedTWR,
+    annualizedTWRPercent: (annualizedTWR * 100).toFixed(2),
+    subPeriodReturns,
+    years
+  };
+}
+
+function periodContributions(startDate: CalendarDate, endDate: CalendarDate, flows: CashFlow[]): CashFlow[] {
+  // Negative amounts are contributions into the portfolio, so flip the sign to
+  // get external flows from the portfolio's point of view
+  return flows
+    .filter(f => f.date > startDate && f.date <= endDate)
+    .map(f => ({ ...f, amount: -f.amount }));
+}
+
+function toDietzResult(method: string, gain: number, netContributions: number, averageCapital: number): DietzResult | null {
+  if (averageCapital <= 0) {
+    return null;
+  }
+
+  const rate = gain / averageCapital;
+
+  return {
+    rate,
+    ratePercent: (rate * 100).toFixed(2),
+    method,
+    netContributions,
+    averageCapital
+  };
+}
+
+export function calculateModifiedDietz(
+  startDate: CalendarDate,
+  endDate: CalendarDate,
+  startValue: number,
+  endValue: number,
+  flows: CashFlow[],
+  dayCount: DayCountConvention = 'ACT/365F'
+): DietzResult | null {
+  const totalYears = yearFraction(startDate, endDate, dayCount);
+  if (totalYears <= 0) {
+    return null;
+  }
+
+  const contributions = periodContributions(startDate, endDate, flows);
+  const netContributions = contributions.reduce((sum, f) => sum + f.amount, 0);
+  // Each flow is weighted by the share of the period it was invested for
+  const weightedContributions = contributions.reduce(
+    (sum, f) => sum + f.amount * (yearFraction(f.date, endDate, dayCount) / totalYears),
+    0
+  );
+
+  return toDietzResult(
+    'Modified Dietz',
+    endValue - startValue - netContributions,
+    netContributions,
+    startValue + weightedContributions
+  );
+}
+
+export function calculateSimpleDietz(
+  startDate: CalendarDate,
+  endDate: CalendarDate,
+  startValue: number,
+  endValue: number,
+  flows: CashFlow[]
+): DietzResult | null {
+  if (endDate <= startDate) {
+    return null;
+  }
+
+  const netContributions = periodContributions(startDate, endDate, flows).reduce((sum, f) => sum + f.amount, 0);
+
+  return toDietzResult(
+    'Simple Dietz',
+    endValue - startValue - netContributions,
+    netContributions,
+    startValue + netContributions / 2
+  );
+}
+
+export function calculateMultiples(cashFlows: CashFlow[], endingNAV: number): MultiplesResult | null {
+  // cashFlows are contributions (negative) and distributions (positive), excluding the ending NAV
+  const paidInCapital = cashFlows.filter(f => f.amount < 0).reduce((sum, f) => sum + Math.abs(f.amount), 0);
+  const distributions = cashFlows.filter(f => f.amount > 0).reduce((sum, f) => sum + f.amount, 0);
+
+  if (paidInCapital === 0) {
+    return null;
+  }
+
+  const dpi = distributions / paidInCapital;
+  const rvpi = endingNAV / paidInCapital;
 
   return {
-    xirr: rate,
-    xirrPercent: (rate * 100).toFixed(2),
-    simpleReturn,
-    simpleReturnPercent: (simpleReturn * 100).toFixed(2),
-    annualized,
-    totalDays,
-    netCashFlow,
-    firstCashFlow,
-    lastCashFlow,
-    totalInflows,
-    totalOutflows,
-    newtonRaphson: newtonResult,
-    brent: brentResult,
-    hasDifference,
-    difference,
-    differencePercent: (difference * 100).toFixed(6)
+    paidInCapital,
+    distributions,
+    residualValue: endingNAV,
+    dpi,
+    rvpi,
+    tvpi: dpi + rvpi
   };
 }
 
-export function filterCashFlowsByPeriod(cashFlows: CashFlow[], endDate: Date, years: number): CashFlow[] {
-  const startDate = new Date(endDate);
-  startDate.setFullYear(startDate.getFullYear() - years);
+export function filterCashFlowsByPeriod(cashFlows: CashFlow[], endDate: CalendarDate, years: number): CashFlow[] {
+  const startDate = addMonths(endDate, -Math.round(years * 12));
 
   const filtered = cashFlows.filter(cf => cf.date >= startDate && cf.date <= endDate);
 
@@ -318,7 +951,7 @@ export function filterCashFlowsByPeriod(cashFlows: CashFlow[], endDate: Date, ye
     return [];
   }
 
-  const sorted = [...filtered].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const sorted = [...filtered].sort((a, b) => compareDates(a.date, b.date));
   const firstDate = sorted[0].date;
 
   const flowsBeforeStart = cashFlows.filter(cf => cf.date < startDate);
@@ -332,28 +965,20 @@ export function filterCashFlowsByPeriod(cashFlows: CashFlow[], endDate: Date, ye
   return sorted;
 }
 
-export function parseCSV(csvText: string): CashFlow[] {
-  const lines = csvText.trim().split('\n');
-  const cashFlows: CashFlow[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const parts = line.split(',');
-    if (parts.length < 2) continue;
-
-    const dateStr = parts[0].trim();
-    const amountStr = parts[1].trim();
-    const description = parts[2]?.trim() || '';
-
-    const date = new Date(dateStr);
-    const amount = parseFloat(amountStr);
-
-    if (!isNaN(date.getTime()) && !isNaN(amount)) {
-      cashFlows.push({ date, amount, description });
-    }
-  }
-
-  return cashFlows;
+export function buildPeriodCashFlows(
+  intermediateFlows: CashFlow[],
+  startDate: CalendarDate,
+  endDate: CalendarDate,
+  startValue: number,
+  endValue: number
+): CashFlow[] {
+  // Start value is treated as an investment on the start date; flows dated on
+  // the start date are assumed to be included in it
+  const flows: CashFlow[] = [
+    { date: startDate, amount: -Math.abs(startValue), description: 'Period Start Value' },
+    ...intermediateFlows.filter(f => f.date > startDate && f.date <= endDate),
+    { date: endDate, amount: endValue, description: 'Period End Value' }
+  ];
+
+  return flows.sort((a, b) => compareDates(a.date, b.date));
 }
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { excelSerialToISO, parseRange, quoteSheetName, readWorkbook, sheetRecords, writeWorkbook } from './xlsx';
+import { buildResultsWorkbook } from './resultsWorkbook';
+import { CalendarDate } from './calendarDate';
+
+const d = (text: string) => text as CalendarDate;
+
+// Formulas by cell reference, read straight from a sheet part since readWorkbook only keeps cached values
+function sheetFormulas(workbook: Uint8Array, sheet: number): Record<string, string> {
+  const xml = strFromU8(unzipSync(workbook)[`xl/worksheets/sheet${sheet}.xml`]);
+  return Object.fromEntries([...xml.matchAll(/<c r="([A-Z]+\d+)"[^>]*><f>([^<]*)<\/f>/g)].map(m => [m[1], m[2]]));
+}
+
+describe('writeWorkbook and readWorkbook', () => {
+  it('round-trips dates, numbers and text that needs escaping', () => {
+    const data = writeWorkbook([
+      {
+        name: 'Flows & "Notes"',
+        rows: [
+          [{ value: 'Date', style: 'header' }, { value: 'Amount', style: 'header' }, { value: 'Description', style: 'header' }],
+          [{ value: 45292, style: 'date' }, { value: -1000.5, style: 'currency' }, 'Fees & <charges> "Q1"'],
+          [],
+          [{ value: 45657, style: 'date' }, 1100, null]
+        ]
+      }
+    ]);
+
+    const workbook = readWorkbook(data);
+    expect(workbook.date1904).toBe(false);
+    expect(workbook.sheets.map(s => s.name)).toEqual(['Flows & "Notes"']);
+    expect(sheetRecords(workbook.sheets[0])).toEqual([
+      { line: 1, fields: ['Date', 'Amount', 'Description'] },
+      { line: 2, fields: ['2024-01-01', '-1000.5', 'Fees & <charges> "Q1"'] },
+      { line: 4, fields: ['2024-12-31', '1100', ''] }
+    ]);
+  });
+
+  it('rejects a file that is not a zip', () => {
+    expect(() => readWorkbook(new TextEncoder().encode('Date,Amount'))).toThrow(/not a valid \.xlsx/);
+  });
+});
+
+describe('excelSerialToISO', () => {
+  it("maps Excel's nonexistent 29 February 1900 onto 1 March", () => {
+    expect(excelSerialToISO(59)).toBe('1900-02-28');
+    expect(excelSerialToISO(60)).toBe('1900-03-01');
+    expect(excelSerialToISO(61)).toBe('1900-03-01');
+  });
+
+  it('converts modern serials and ignores the time of day', () => {
+    expect(excelSerialToISO(45292)).toBe('2024-01-01');
+    expect(excelSerialToISO(45292.75)).toBe('2024-01-01');
+  });
+
+  it('uses the 1904 epoch when asked and rejects serials outside the range', () => {
+    expect(excelSerialToISO(0, true)).toBe('1904-01-01');
+    expect(excelSerialToISO(0)).toBe('');
+    expect(excelSerialToISO(2958466)).toBe('');
+  });
+});
+
+describe('parseRange', () => {
+  it('reads a range in either corner order', () => {
+    const range = { startRow: 0, startCol: 0, endRow: 19, endCol: 3 };
+    expect(parseRange('A1:D20')).toEqual(range);
+    expect(parseRange('d20:a1')).toEqual(range);
+  });
+
+  it('reads absolute references and a single cell', () => {
+    expect(parseRange('$B$3')).toEqual({ startRow: 2, startCol: 1, endRow: 2, endCol: 1 });
+    expect(parseRange('AA10:AB12')).toEqual({ startRow: 9, startCol: 26, endRow: 11, endCol: 27 });
+  });
+
+  it('rejects anything that is not a cell reference', () => {
+    expect(parseRange('')).toBeNull();
+    expect(parseRange('A1:B')).toBeNull();
+    expect(parseRange('Sheet1!A1')).toBeNull();
+  });
+});
+
+describe('quoteSheetName', () => {
+  it('quotes names with spaces or apostrophes', () => {
+    expect(quoteSheetName('Results')).toBe('Results');
+    expect(quoteSheetName('Cash Flows')).toBe("'Cash Flows'");
+    expect(quoteSheetName("O'Brien")).toBe("'O''Brien'");
+  });
+});
+
+describe('buildResultsWorkbook', () => {
+  const flows = [
+    { date: '2024-06-30', amount: '500', description: 'Distribution' },
+    { date: '2024-01-01', amount: '-1000', description: 'Investment' }
+  ];
+  const results = [
+    { label: 'All flows', startDate: '2024-01-01', endDate: '2024-06-30', cashFlows: null, result: null },
+    {
+      label: 'H1',
+      startDate: '2024-01-01',
+      endDate: '2024-06-30',
+      cashFlows: [
+        { date: d('2024-06-30'), amount: 950 },
+        { date: d('2024-01-01'), amount: -1000 },
+        { date: d('2024-03-31'), amount: 20 }
+      ],
+      result: null
+    },
+    {
+      label: 'Q2',
+      startDate: '2024-03-31',
+      endDate: '2024-06-30',
+      cashFlows: [
+        { date: d('2024-03-31'), amount: -980 },
+        { date: d('2024-06-30'), amount: 950 }
+      ],
+      result: null
+    }
+  ];
+
+  it('points each XIRR formula at the rows its flows were written to', () => {
+    const workbook = buildResultsWorkbook(flows, [], results);
+
+    // Summary rows 2-4; each flow block is a blank row, a title, a header and then the flows
+    expect(sheetFormulas(workbook, 3)).toEqual({
+      D2: "XIRR('Cash Flows'!B2:B3,'Cash Flows'!A2:A3)",
+      D3: 'XIRR(B8:B10,A8:A10)',
+      D4: 'XIRR(B14:B15,A14:A15)'
+    });
+
+    const resultsSheet = readWorkbook(workbook).sheets[2];
+    const rows = new Map(sheetRecords(resultsSheet).map(r => [r.line, r.fields]));
+    expect([8, 9, 10].map(line => rows.get(line)?.slice(0, 2))).toEqual([
+      ['2024-01-01', '-1000'],
+      ['2024-03-31', '20'],
+      ['2024-06-30', '950']
+    ]);
+    expect([14, 15].map(line => rows.get(line)?.slice(0, 2))).toEqual([
+      ['2024-03-31', '-980'],
+      ['2024-06-30', '950']
+    ]);
+  });
+});
@@ -0,0 +1,447 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { CSVRecord } from './csvImport';
+import { CalendarDate, addDays, calendarDate, daysBetween, parseCalendarDate } from './calendarDate';
+
+// Cell coordinates are 0-based; an A1 reference of "B3" is { row: 2, col: 1 }
+export interface CellRange {
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+export interface WorkbookCell {
+  row: number;
+  col: number;
+  value: string;
+}
+
+export interface WorkbookSheet {
+  name: string;
+  cells: WorkbookCell[];
+  // Smallest range holding every non-empty cell, or null for an empty sheet
+  range: CellRange | null;
+}
+
+export interface Workbook {
+  sheets: WorkbookSheet[];
+  date1904: boolean;
+}
+
+export type CellStyle = 'header' | 'date' | 'currency' | 'percent' | 'number';
+
+export type SheetCell =
+  | string
+  | number
+  | null
+  | { value: string | number; style: CellStyle }
+  | { formula: string; cached?: number | string; style?: CellStyle };
+
+export interface SheetData {
+  name: string;
+  rows: SheetCell[][];
+  columnWidths?: number[];
+}
+
+// The last day Excel can represent, 9999-12-31
+const MAX_SERIAL = 2958465;
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Index into cellXfs in STYLES_XML
+const STYLE_INDEX: Record<CellStyle, number> = { header: 1, date: 2, currency: 3, percent: 4, number: 5 };
+
+// Built-in number formats that display dates (14-22, plus the East Asian date formats)
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+export function excelSerialToISO(serial: number, date1904 = false): CalendarDate | '' {
+  if (!isFinite(serial) || serial < (date1904 ? 0 : 1) || serial > MAX_SERIAL) return '';
+  const days = Math.floor(serial);
+  // Excel's 1900 system counts a nonexistent 29 February 1900 (serial 60), so later serials are one day ahead
+  const epoch = date1904 ? calendarDate(1904, 1, 1) : calendarDate(1899, 12, days > 60 ? 30 : 31);
+  return addDays(epoch, days);
+}
+
+export function isoToExcelSerial(date: string): number | null {
+  const calendar = parseCalendarDate(date);
+  return calendar === null ? null : daysBetween(calendarDate(1899, 12, 30), calendar);
+}
+
+export function columnLetters(col: number): string {
+  let letters = '';
+  for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+export function cellRef(row: number, col: number): string {
+  return `${columnLetters(col)}${row + 1}`;
+}
+
+function parseCellRef(ref: string): { row: number; col: number } | null {
+  const match = /^\$?([A-Z]{1,3})\$?(\d+)$/i.exec(ref.trim());
+  if (!match) return null;
+  const col = match[1].toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+  return { row: Number(match[2]) - 1, col };
+}
+
+// Accepts "A1:D20" (in either corner order) or a single cell
+export function parseRange(text: string): CellRange | null {
+  const [first, second = first] = text.trim().split(':');
+  const a = parseCellRef(first);
+  const b = parseCellRef(second);
+  if (!a || !b) return null;
+  return {
+    startRow: Math.min(a.row, b.row),
+    startCol: Math.min(a.col, b.col),
+    endRow: Math.max(a.row, b.row),
+    endCol: Math.max(a.col, b.col)
+  };
+}
+
+export function formatRange(range: CellRange): string {
+  return `${cellRef(range.startRow, range.startCol)}:${cellRef(range.endRow, range.endCol)}`;
+}
+
+// ---- Reading -------------------------------------------------------------------------------
+
+// Element names may carry a namespace prefix (e.g. <x:c>) depending on the writer
+const tag = (name: string) => `(?:\\w+:)?${name}`;
+
+function attributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = decodeXML(match[2] ?? match[3]);
+  }
+  return attrs;
+}
+
+function decodeXML(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[entity.toLowerCase()] as string;
+  });
+}
+
+// Text of a shared or inline string: every <t> run, without phonetic guides
+function textContent(xml: string): string {
+  const withoutPhonetics = xml.replace(new RegExp(`<${tag('rPh')}\\b[\\s\\S]*?</${tag('rPh')}>`, 'g'), '');
+  let text = '';
+  for (const match of withoutPhonetics.matchAll(new RegExp(`<${tag('t')}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag('t')}>`, 'g'))) {
+    text += decodeXML(match[1]);
+  }
+  return text;
+}
+
+function resolvePath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = baseDir.split('/').filter(Boolean);
+  for (const part of target.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+function readRelationships(xml: string | null): Map<string, string> {
+  const rels = new Map<string, string>();
+  if (!xml) return rels;
+  for (const match of xml.matchAll(new RegExp(`<${tag('Relationship')}\\b([^>]*)>`, 'g'))) {
+    const attrs = attributes(match[1]);
+    if (attrs.Id && attrs.Target) rels.set(attrs.Id, attrs.Target);
+  }
+  return rels;
+}
+
+function isDateFormatCode(code: string): boolean {
+  // Quoted text, escaped characters and [colour]/[$-locale] sections can't make a number a date
+  const bare = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+  return /[dmy]/i.test(bare) && !/^general$/i.test(bare.trim());
+}
+
+function readDateStyles(xml: string | null): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!xml) return dateStyles;
+
+  const customFormats = new Map<number, string>();
+  for (const match of xml.matchAll(new RegExp(`<${tag('numFmt')}\\b([^>]*)>`, 'g'))) {
+    const attrs = attributes(match[1]);
+    customFormats.set(Number(attrs.numFmtId), attrs.formatCode || '');
+  }
+
+  const cellXfs = new RegExp(`<${tag('cellXfs')}\\b[^>]*>([\\s\\S]*?)</${tag('cellXfs')}>`).exec(xml);
+  if (!cellXfs) return dateStyles;
+
+  let index = 0;
+  for (const match of cellXfs[1].matchAll(new RegExp(`<${tag('xf')}\\b([^>]*?)/?>`, 'g'))) {
+    const formatId = Number(attributes(match[1]).numFmtId || 0);
+    const code = customFormats.get(formatId);
+    if (code !== undefined ? isDateFormatCode(code) : BUILTIN_DATE_FORMATS.has(formatId)) {
+      dateStyles.add(index);
+    }
+    index++;
+  }
+  return dateStyles;
+}
+
+/**
+ * Cells are read as the text an import would see: dates (by number format) become YYYY-MM-DD,
+ * other numbers keep their raw value so currency and thousands formatting doesn't matter, and
+ * formulas contribute their last calculated value.
+ */
+function readSheetCells(xml: string, sharedStrings: string[], dateStyles: Set<number>, date1904: boolean): WorkbookCell[] {
+  const cells: WorkbookCell[] = [];
+  const rowPattern = new RegExp(`<${tag('row')}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag('row')}>)`, 'g');
+  const cellPattern = new RegExp(`<${tag('c')}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</${tag('c')}>)`, 'g');
+  const valuePattern = new RegExp(`<${tag('v')}>([\\s\\S]*?)</${tag('v')}>`);
+
+  let nextRow = 0;
+  for (const rowMatch of xml.matchAll(rowPattern)) {
+    const rowAttrs = attributes(rowMatch[1]);
+    const row = rowAttrs.r ? Number(rowAttrs.r) - 1 : nextRow;
+    nextRow = row + 1;
+
+    let nextCol = 0;
+    for (const cellMatch of (rowMatch[2] || '').matchAll(cellPattern)) {
+      const attrs = attributes(cellMatch[1] || '');
+      const inner = cellMatch[2] || '';
+      const ref = attrs.r ? parseCellRef(attrs.r) : null;
+      const col = ref ? ref.col : nextCol;
+      nextCol = col + 1;
+
+      const raw = valuePattern.exec(inner)?.[1] ?? '';
+      let value: string;
+      switch (attrs.t) {
+        case 's':
+          value = sharedStrings[Number(raw)] ?? '';
+          break;
+        case 'inlineStr':
+          value = textContent(inner);
+          break;
+        case 'b':
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+          break;
+        case 'd':
+          value = decodeXML(raw).slice(0, 10);
+          break;
+        case 'str':
+        case 'e':
+          value = decodeXML(raw);
+          break;
+        default:
+          value = raw !== '' && attrs.s && dateStyles.has(Number(attrs.s))
+            ? excelSerialToISO(Number(raw), date1904) || raw
+            : raw;
+      }
+
+      if (value.trim() !== '') {
+        cells.push({ row, col, value });
+      }
+    }
+  }
+
+  return cells;
+}
+
+function usedRange(cells: WorkbookCell[]): CellRange | null {
+  if (cells.length === 0) return null;
+  return cells.reduce(
+    (range, { row, col }) => ({
+      startRow: Math.min(range.startRow, row),
+      startCol: Math.min(range.startCol, col),
+      endRow: Math.max(range.endRow, row),
+      endCol: Math.max(range.endCol, col)
+    }),
+    { startRow: Infinity, startCol: Infinity, endRow: -1, endCol: -1 }
+  );
+}
+
+export function readWorkbook(data: Uint8Array): Workbook {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error('The file is not a valid .xlsx workbook. Older .xls files must be re-saved as .xlsx.');
+  }
+  const read = (path: string) => (files[path] ? strFromU8(files[path]) : null);
+
+  const rootRels = readRelationships(read('_rels/.rels'));
+  const officeDocument = [...rootRels.values()].find(target => /workbook\.xml$/.test(target)) ?? 'xl/workbook.xml';
+  const workbookPath = resolvePath('', officeDocument);
+  const workbookXml = read(workbookPath);
+  if (!workbookXml) {
+    throw new Error('The file is not an Excel workbook (no workbook part found).');
+  }
+
+  const baseDir = workbookPath.slice(0, workbookPath.lastIndexOf('/') + 1);
+  const rels = readRelationships(read(`${baseDir}_rels/${workbookPath.slice(baseDir.length)}.rels`));
+  const relTarget = (pattern: RegExp) => [...rels.values()].find(target => pattern.test(target));
+
+  const sharedStringsPath = relTarget(/sharedStrings\.xml$/);
+  const sharedStringsXml = sharedStringsPath ? read(resolvePath(baseDir, sharedStringsPath)) : null;
+  const sharedStrings = sharedStringsXml
+    ? [...sharedStringsXml.matchAll(new RegExp(`<${tag('si')}>([\\s\\S]*?)</${tag('si')}>`, 'g'))].map(m => textContent(m[1]))
+    : [];
+
+  const stylesPath = relTarget(/styles\.xml$/);
+  const dateStyles = readDateStyles(stylesPath ? read(resolvePath(baseDir, stylesPath)) : null);
+  const date1904 = new RegExp(`<${tag('workbookPr')}\\b[^>]*date1904\\s*=\\s*["'](1|true)["']`).test(workbookXml);
+
+  const sheets: WorkbookSheet[] = [];
+  for (const match of workbookXml.matchAll(new RegExp(`<${tag('sheet')}\\b([^>]*)>`, 'g'))) {
+    const attrs = attributes(match[1]);
+    const relId = Object.entries(attrs).find(([name]) => /(^|:)id$/.test(name))?.[1];
+    const target = relId ? rels.get(relId) : undefined;
+    const xml = target ? read(resolvePath(baseDir, target)) : null;
+    // Chart sheets and dialog sheets have no cells
+    if (!xml || !/worksheets\//.test(target!)) continue;
+
+    const cells = readSheetCells(xml, sharedStrings, dateStyles, date1904);
+    sheets.push({ name: attrs.name || `Sheet${sheets.length + 1}`, cells, range: usedRange(cells) });
+  }
+
+  if (sheets.length === 0) {
+    throw new Error('The workbook has no worksheets.');
+  }
+  return { sheets, date1904 };
+}
+
+// Rows within the range become records, numbered by their spreadsheet row; empty rows are skipped
+export function sheetRecords(sheet: WorkbookSheet, range: CellRange | null = sheet.range): CSVRecord[] {
+  if (!range) return [];
+
+  const width = range.endCol - range.startCol + 1;
+  const rows = new Map<number, string[]>();
+  for (const { row, col, value } of sheet.cells) {
+    if (row < range.startRow || row > range.endRow || col < range.startCol || col > range.endCol) continue;
+    let fields = rows.get(row);
+    if (!fields) {
+      fields = new Array<string>(width).fill('');
+      rows.set(row, fields);
+    }
+    fields[col - range.startCol] = value.trim();
+  }
+
+  return [...rows.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([row, fields]) => ({ line: row + 1, fields }));
+}
+
+// ---- Writing -------------------------------------------------------------------------------
+
+// Control characters other than tab and line breaks are not allowed in XML
+const isXMLChar = (ch: string) => ch >= ' ' || ch === '\t' || ch === '\n' || ch === '\r';
+
+function escapeXML(text: string): string {
+  return Array.from(text)
+    .filter(isXMLChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function quoteSheetName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+function cellXML(ref: string, cell: SheetCell): string {
+  if (cell === null || cell === '') return '';
+
+  if (typeof cell === 'object' && 'formula' in cell) {
+    const style = cell.style ? ` s="${STYLE_INDEX[cell.style]}"` : '';
+    const cached = cell.cached === undefined
+      ? ''
+      : typeof cell.cached === 'number'
+        ? (isFinite(cell.cached) ? `<v>${cell.cached}</v>` : '')
+        : `<v>${escapeXML(cell.cached)}</v>`;
+    const type = typeof cell.cached === 'string' ? ' t="str"' : '';
+    return `<c r="${ref}"${style}${type}><f>${escapeXML(cell.formula)}</f>${cached}</c>`;
+  }
+
+  const { value, style } = typeof cell === 'object' ? cell : { value: cell, style: undefined };
+  const styleAttr = style ? ` s="${STYLE_INDEX[style]}"` : '';
+  if (typeof value === 'number') {
+    return isFinite(value) ? `<c r="${ref}"${styleAttr}><v>${value}</v></c>` : '';
+  }
+  return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`;
+}
+
+function sheetXML(sheet: SheetData): string {
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const rows = sheet.rows
+    .map((cells, r) => {
+      const content = cells.map((cell, c) => cellXML(cellRef(r, c), cell)).join('');
+      return content ? `<row r="${r + 1}">${content}</row>` : '';
+    })
+    .join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<worksheet xmlns="${MAIN_NS}">${cols}<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${MAIN_NS}">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+/**
+ * Builds an .xlsx file. Strings are written inline rather than shared, and the workbook asks
+ * Excel to recalculate on open so formulas never show stale cached values.
+ */
+export function writeWorkbook(sheets: SheetData[]): Uint8Array {
+  const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      `${header}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      `${header}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      `${header}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+      sheets.map((sheet, i) => `<sheet name="${escapeXML(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+      '</sheets><calcPr calcId="191029" fullCalcOnLoad="1"/></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      `${header}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+      sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+      '</Relationships>'
+    ),
+    'xl/styles.xml': strToU8(STYLES_XML)
+  };
+
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXML(sheet));
+  });
+
+  return zipSync(files);
+}
@@ -0,0 +1,62 @@
+import { ValuedCashFlow } from '../utils/xirr';
+import { BenchmarkSeries } from '../utils/benchmark';
+import { Period, PeriodCalculationOptions, PeriodResult, createPeriodCalculator } from '../utils/periodResults';
+
+export type XIRRWorkerRequest =
+  | { type: 'context'; flows: ValuedCashFlow[]; benchmarks: BenchmarkSeries[] }
+  | { type: 'calculate'; jobId: number; periods: Period[]; options: PeriodCalculationOptions }
+  | { type: 'cancel'; jobId: number };
+
+export type XIRRWorkerResponse =
+  | { type: 'progress'; jobId: number; completed: number; total: number }
+  | { type: 'result'; jobId: number; results: PeriodResult[] }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
+
+const calculator = createPeriodCalculator();
+let activeJobId: number | null = null;
+
+const post = (message: XIRRWorkerResponse) => self.postMessage(message);
+
+// Yield between periods so a queued cancel or newer job is seen before the next one starts
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+async function runJob(jobId: number, periods: Period[], options: PeriodCalculationOptions) {
+  activeJobId = jobId;
+  const results: PeriodResult[] = [];
+
+  try {
+    for (const period of periods) {
+      await nextTick();
+      if (activeJobId !== jobId) {
+        post({ type: 'cancelled', jobId });
+        return;
+      }
+
+      results.push(calculator.calculate(period, options));
+      post({ type: 'progress', jobId, completed: results.length, total: periods.length });
+    }
+
+    post({ type: 'result', jobId, results });
+  } catch (err) {
+    post({ type: 'error', jobId, message: err instanceof Error ? err.message : String(err) });
+  } finally {
+    if (activeJobId === jobId) activeJobId = null;
+  }
+}
+
+self.onmessage = (event: MessageEvent<XIRRWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'context':
+      calculator.setContext(message.flows, message.benchmarks);
+      break;
+    case 'calculate':
+      runJob(message.jobId, message.periods, message.options);
+      break;
+    case 'cancel':
+      if (activeJobId === message.jobId) activeJobId = null;
+      break;
+  }
+};
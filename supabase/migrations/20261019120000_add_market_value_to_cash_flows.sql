@@ -0,0 +1,24 @@
+/*
+  # Add Market Value to Cash Flows
+
+  1. Changes
+    - Add nullable `market_value` column to `cash_flows`
+    - Holds the portfolio value on the flow date, before the flow, used for
+      time-weighted and rolling returns
+    - Add an index on (dataset_id, sort_order) so flows load in display order
+
+  2. Notes
+    - Existing rows keep a NULL market value
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cash_flows' AND column_name = 'market_value'
+  ) THEN
+    ALTER TABLE cash_flows ADD COLUMN market_value numeric DEFAULT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_cash_flows_dataset_sort ON cash_flows(dataset_id, sort_order);
@@ -0,0 +1,88 @@
+/*
+  # Dataset Version History
+
+  1. New Tables
+    - `dataset_versions`
+      - `id` (uuid, primary key)
+      - `dataset_id` (uuid, foreign key) - References datasets table
+      - `version` (integer) - 1 for the first save, incremented on every later save or restore
+      - `flows` (jsonb) - Snapshot of the dataset's cash flows, in display order
+      - `period_values` (jsonb, nullable) - Snapshot of the multi-period configuration
+      - `note` (text) - What produced the version, e.g. "Restored from version 2"
+      - `created_by` (uuid) - References auth.users
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS; versions are accessible through dataset ownership
+    - Only SELECT and INSERT policies: versions are never edited, and are
+      removed with their dataset by ON DELETE CASCADE
+
+  3. Notes
+    - Existing datasets get a version 1 built from their current cash flows
+*/
+
+CREATE TABLE IF NOT EXISTS dataset_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dataset_id uuid REFERENCES datasets(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL,
+  flows jsonb NOT NULL DEFAULT '[]'::jsonb,
+  period_values jsonb DEFAULT NULL,
+  note text DEFAULT '',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (dataset_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dataset_versions_dataset_id ON dataset_versions(dataset_id, version DESC);
+
+ALTER TABLE dataset_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of own datasets"
+  ON dataset_versions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM datasets
+      WHERE datasets.id = dataset_versions.dataset_id
+      AND datasets.user_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can insert versions to own datasets"
+  ON dataset_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM datasets
+      WHERE datasets.id = dataset_versions.dataset_id
+      AND datasets.user_id = (select auth.uid())
+    )
+  );
+
+INSERT INTO dataset_versions (dataset_id, version, flows, period_values, note, created_by, created_at)
+SELECT
+  d.id,
+  1,
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_strip_nulls(jsonb_build_object(
+          'date', cf.date::text,
+          'amount', cf.amount::text,
+          'description', COALESCE(cf.description, ''),
+          'marketValue', cf.market_value::text
+        )) ORDER BY cf.sort_order
+      )
+      FROM cash_flows cf
+      WHERE cf.dataset_id = d.id
+    ),
+    '[]'::jsonb
+  ),
+  d.period_values,
+  'Existing dataset',
+  d.user_id,
+  d.updated_at
+FROM datasets d
+WHERE NOT EXISTS (
+  SELECT 1 FROM dataset_versions v WHERE v.dataset_id = d.id
+);
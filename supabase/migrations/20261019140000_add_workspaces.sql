@@ -0,0 +1,409 @@
+/*
+  # Team Workspaces
+
+  1. New Tables
+    - `workspaces`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `created_by` (uuid) - References auth.users
+      - `created_at` (timestamptz)
+
+    - `workspace_members`
+      - `workspace_id` (uuid, foreign key) - References workspaces table
+      - `user_id` (uuid, foreign key) - References auth.users
+      - `role` (text) - 'owner', 'editor' or 'viewer'
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add nullable `workspace_id` to `datasets`. NULL means a personal dataset,
+      visible only to `user_id` as before
+    - Deleting a workspace sets `workspace_id` back to NULL, so its datasets
+      return to their creators' personal datasets instead of being deleted
+
+  3. Security
+    - Owners manage the workspace and its members, editors create, change and
+      delete the workspace's datasets, viewers can only read them
+    - `datasets`, `cash_flows` and `dataset_versions` policies are replaced with
+      ones that check workspace membership
+    - Membership is checked through SECURITY DEFINER functions so policies on
+      `workspace_members` don't recurse into themselves
+    - A workspace always keeps at least one owner
+    - A dataset's `user_id` never changes, and only its creator or an owner of
+      its workspace can move it to another workspace or back to personal, so an
+      editor cannot take a shared dataset into their own space
+
+  4. Functions
+    - `add_workspace_member(workspace, email, role)` - owners invite an existing
+      account by email, or change its role
+    - `list_workspace_members(workspace)` - members with their email addresses
+    - `move_dataset(dataset, workspace)` - moves a dataset into a workspace, or
+      back to its creator's personal datasets with a NULL workspace. It runs as
+      the definer because an owner who did not create the dataset cannot pass the
+      update policy for a personal dataset that isn't theirs
+*/
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role text NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'datasets' AND column_name = 'workspace_id'
+  ) THEN
+    ALTER TABLE datasets ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE SET NULL DEFAULT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_datasets_workspace_id ON datasets(workspace_id);
+
+-- Membership helpers
+
+CREATE OR REPLACE FUNCTION workspace_role(p_workspace_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM workspace_members
+  WHERE workspace_id = p_workspace_id AND user_id = (select auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION can_read_dataset(p_dataset_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM datasets d
+    WHERE d.id = p_dataset_id
+    AND (
+      (d.workspace_id IS NULL AND d.user_id = (select auth.uid()))
+      OR workspace_role(d.workspace_id) IS NOT NULL
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_write_dataset(p_dataset_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM datasets d
+    WHERE d.id = p_dataset_id
+    AND (
+      (d.workspace_id IS NULL AND d.user_id = (select auth.uid()))
+      OR workspace_role(d.workspace_id) IN ('owner', 'editor')
+    )
+  );
+$$;
+
+-- The creator of a workspace becomes its first owner
+
+CREATE OR REPLACE FUNCTION add_workspace_creator()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO workspace_members (workspace_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_workspace_created ON workspaces;
+CREATE TRIGGER on_workspace_created
+  AFTER INSERT ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION add_workspace_creator();
+
+CREATE OR REPLACE FUNCTION keep_workspace_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM workspaces WHERE id = OLD.workspace_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM workspace_members
+      WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'A workspace must keep at least one owner';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_workspace_owner ON workspace_members;
+CREATE TRIGGER keep_workspace_owner
+  BEFORE UPDATE OR DELETE ON workspace_members
+  FOR EACH ROW EXECUTE FUNCTION keep_workspace_owner();
+
+-- Moving datasets
+
+CREATE OR REPLACE FUNCTION guard_dataset_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Maintenance outside a user session (service role, migrations) is not restricted
+  IF (select auth.uid()) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'The creator of a dataset cannot be changed';
+  END IF;
+
+  -- Deleting a workspace clears workspace_id after its memberships are gone, so that move is
+  -- always allowed
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id
+    AND OLD.user_id IS DISTINCT FROM (select auth.uid())
+    AND workspace_role(OLD.workspace_id) IS DISTINCT FROM 'owner'
+    AND EXISTS (SELECT 1 FROM workspaces WHERE id = OLD.workspace_id)
+  THEN
+    RAISE EXCEPTION 'Only the creator of a dataset or a workspace owner can move it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_dataset_owner ON datasets;
+CREATE TRIGGER guard_dataset_owner
+  BEFORE UPDATE ON datasets
+  FOR EACH ROW EXECUTE FUNCTION guard_dataset_owner();
+
+CREATE OR REPLACE FUNCTION move_dataset(p_dataset_id uuid, p_workspace_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_workspace_id uuid;
+BEGIN
+  SELECT user_id, workspace_id INTO v_user_id, v_workspace_id
+  FROM datasets WHERE id = p_dataset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dataset not found';
+  END IF;
+
+  -- The same rule guard_dataset_owner applies to direct updates
+  IF v_user_id IS DISTINCT FROM (select auth.uid())
+    AND workspace_role(v_workspace_id) IS DISTINCT FROM 'owner'
+  THEN
+    RAISE EXCEPTION 'Only the creator of a dataset or a workspace owner can move it';
+  END IF;
+
+  IF p_workspace_id IS NOT NULL AND COALESCE(workspace_role(p_workspace_id), '') NOT IN ('owner', 'editor') THEN
+    RAISE EXCEPTION 'Datasets can only be moved into workspaces where you are an owner or editor';
+  END IF;
+
+  UPDATE datasets SET workspace_id = p_workspace_id WHERE id = p_dataset_id;
+END;
+$$;
+
+-- Member management
+
+CREATE OR REPLACE FUNCTION add_workspace_member(p_workspace_id uuid, p_email text, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF workspace_role(p_workspace_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only workspace owners can add members';
+  END IF;
+
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = lower(trim(p_email));
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account found for %', p_email;
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, role)
+  VALUES (p_workspace_id, v_user_id, p_role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_workspace_members(p_workspace_id uuid)
+RETURNS TABLE (user_id uuid, email text, role text, created_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF workspace_role(p_workspace_id) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this workspace';
+  END IF;
+
+  RETURN QUERY
+    SELECT m.user_id, u.email::text, m.role, m.created_at
+    FROM workspace_members m
+    JOIN auth.users u ON u.id = m.user_id
+    WHERE m.workspace_id = p_workspace_id
+    ORDER BY m.created_at;
+END;
+$$;
+
+-- workspaces and workspace_members policies
+
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces"
+  ON workspaces FOR SELECT
+  TO authenticated
+  USING (workspace_role(id) IS NOT NULL OR created_by = (select auth.uid()));
+
+CREATE POLICY "Users can create workspaces"
+  ON workspaces FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = (select auth.uid()));
+
+CREATE POLICY "Owners can update workspaces"
+  ON workspaces FOR UPDATE
+  TO authenticated
+  USING (workspace_role(id) = 'owner')
+  WITH CHECK (workspace_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete workspaces"
+  ON workspaces FOR DELETE
+  TO authenticated
+  USING (workspace_role(id) = 'owner');
+
+CREATE POLICY "Members can view workspace members"
+  ON workspace_members FOR SELECT
+  TO authenticated
+  USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Owners can add workspace members"
+  ON workspace_members FOR INSERT
+  TO authenticated
+  WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can change member roles"
+  ON workspace_members FOR UPDATE
+  TO authenticated
+  USING (workspace_role(workspace_id) = 'owner')
+  WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON workspace_members FOR DELETE
+  TO authenticated
+  USING (workspace_role(workspace_id) = 'owner' OR user_id = (select auth.uid()));
+
+-- Replace single-owner policies on datasets, cash_flows and dataset_versions
+
+DROP POLICY IF EXISTS "Users can view own datasets" ON datasets;
+DROP POLICY IF EXISTS "Users can insert own datasets" ON datasets;
+DROP POLICY IF EXISTS "Users can update own datasets" ON datasets;
+DROP POLICY IF EXISTS "Users can delete own datasets" ON datasets;
+
+DROP POLICY IF EXISTS "Users can view cash flows of own datasets" ON cash_flows;
+DROP POLICY IF EXISTS "Users can insert cash flows to own datasets" ON cash_flows;
+DROP POLICY IF EXISTS "Users can update cash flows of own datasets" ON cash_flows;
+DROP POLICY IF EXISTS "Users can delete cash flows of own datasets" ON cash_flows;
+
+DROP POLICY IF EXISTS "Users can view versions of own datasets" ON dataset_versions;
+DROP POLICY IF EXISTS "Users can insert versions to own datasets" ON dataset_versions;
+
+CREATE POLICY "Users can view own and workspace datasets"
+  ON datasets FOR SELECT
+  TO authenticated
+  USING (
+    (workspace_id IS NULL AND user_id = (select auth.uid()))
+    OR workspace_role(workspace_id) IS NOT NULL
+  );
+
+CREATE POLICY "Users can insert own and workspace datasets"
+  ON datasets FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND (workspace_id IS NULL OR workspace_role(workspace_id) IN ('owner', 'editor'))
+  );
+
+CREATE POLICY "Users can update own and workspace datasets"
+  ON datasets FOR UPDATE
+  TO authenticated
+  USING (
+    (workspace_id IS NULL AND user_id = (select auth.uid()))
+    OR workspace_role(workspace_id) IN ('owner', 'editor')
+  )
+  WITH CHECK (
+    (workspace_id IS NULL AND user_id = (select auth.uid()))
+    OR workspace_role(workspace_id) IN ('owner', 'editor')
+  );
+
+CREATE POLICY "Users can delete own and workspace datasets"
+  ON datasets FOR DELETE
+  TO authenticated
+  USING (
+    (workspace_id IS NULL AND user_id = (select auth.uid()))
+    OR workspace_role(workspace_id) IN ('owner', 'editor')
+  );
+
+CREATE POLICY "Users can view cash flows of readable datasets"
+  ON cash_flows FOR SELECT
+  TO authenticated
+  USING (can_read_dataset(dataset_id));
+
+CREATE POLICY "Users can insert cash flows to writable datasets"
+  ON cash_flows FOR INSERT
+  TO authenticated
+  WITH CHECK (can_write_dataset(dataset_id));
+
+CREATE POLICY "Users can update cash flows of writable datasets"
+  ON cash_flows FOR UPDATE
+  TO authenticated
+  USING (can_write_dataset(dataset_id))
+  WITH CHECK (can_write_dataset(dataset_id));
+
+CREATE POLICY "Users can delete cash flows of writable datasets"
+  ON cash_flows FOR DELETE
+  TO authenticated
+  USING (can_write_dataset(dataset_id));
+
+CREATE POLICY "Users can view versions of readable datasets"
+  ON dataset_versions FOR SELECT
+  TO authenticated
+  USING (can_read_dataset(dataset_id));
+
+CREATE POLICY "Users can insert versions to writable datasets"
+  ON dataset_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (can_write_dataset(dataset_id));
@@ -0,0 +1,62 @@
+/*
+  # Transactional Dataset Saves
+
+  1. New Functions
+    - `save_dataset_version(dataset, flows, period_values, note, description, cash_flows)`
+      records the next version, updates the dataset and replaces its cash flows
+      in one transaction, returning the new version number
+
+  2. Notes
+    - Saving from the client used to delete the dataset's cash flows and insert
+      them again in separate requests, so a failed insert could leave a dataset
+      with none or only some of its flows
+    - `flows` is the version snapshot as entered; `cash_flows` holds the same
+      flows already converted to rows (date, amount, description, market_value)
+    - The function runs with the caller's rights, so the existing row-level
+      security policies still decide who may save
+*/
+
+CREATE OR REPLACE FUNCTION save_dataset_version(
+  p_dataset_id uuid,
+  p_flows jsonb,
+  p_period_values jsonb,
+  p_note text,
+  p_description text,
+  p_cash_flows jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_version integer;
+BEGIN
+  -- Locking the dataset gives concurrent saves consecutive version numbers
+  PERFORM 1 FROM datasets WHERE id = p_dataset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dataset not found';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM dataset_versions
+  WHERE dataset_id = p_dataset_id;
+
+  INSERT INTO dataset_versions (dataset_id, version, flows, period_values, note)
+  VALUES (p_dataset_id, v_version, p_flows, p_period_values, p_note);
+
+  UPDATE datasets
+  SET period_values = p_period_values,
+      updated_at = now(),
+      description = COALESCE(p_description, description)
+  WHERE id = p_dataset_id;
+
+  DELETE FROM cash_flows WHERE dataset_id = p_dataset_id;
+
+  INSERT INTO cash_flows (dataset_id, date, amount, description, market_value, sort_order)
+  SELECT p_dataset_id, r.date, r.amount, r.description, r.market_value, r.sort_order
+  FROM jsonb_to_recordset(p_cash_flows)
+    AS r(date date, amount numeric, description text, market_value numeric, sort_order integer);
+
+  RETURN v_version;
+END;
+$$;
@@ -0,0 +1,61 @@
+/*
+  # Transactional Dataset Creation
+
+  1. New Functions
+    - `create_dataset(user, name, description, period_values, workspace, created_at,
+      updated_at, flows, note, cash_flows)` inserts the dataset, its cash flows and
+      version 1 in one transaction, returning the new dataset row
+
+  2. Notes
+    - Creating a dataset from the client used three separate requests and deleted
+      the dataset again if a later one failed, which could itself fail and leave a
+      dataset with only some of its flows or no history
+    - `flows` is the version snapshot as entered; `cash_flows` holds the same flows
+      already converted to rows (date, amount, description, market_value, sort_order)
+    - NULL timestamps default to now(); migrated datasets pass their original ones
+    - Like `save_dataset_version`, the function runs with the caller's rights, so
+      the existing row-level security policies still decide who may create
+*/
+
+CREATE OR REPLACE FUNCTION create_dataset(
+  p_user_id uuid,
+  p_name text,
+  p_description text,
+  p_period_values jsonb,
+  p_workspace_id uuid,
+  p_created_at timestamptz,
+  p_updated_at timestamptz,
+  p_flows jsonb,
+  p_note text,
+  p_cash_flows jsonb
+)
+RETURNS datasets
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_dataset datasets;
+BEGIN
+  INSERT INTO datasets (user_id, name, description, period_values, workspace_id, created_at, updated_at)
+  VALUES (
+    p_user_id,
+    p_name,
+    p_description,
+    p_period_values,
+    p_workspace_id,
+    COALESCE(p_created_at, now()),
+    COALESCE(p_updated_at, now())
+  )
+  RETURNING * INTO v_dataset;
+
+  INSERT INTO cash_flows (dataset_id, date, amount, description, market_value, sort_order)
+  SELECT v_dataset.id, r.date, r.amount, r.description, r.market_value, r.sort_order
+  FROM jsonb_to_recordset(p_cash_flows)
+    AS r(date date, amount numeric, description text, market_value numeric, sort_order integer);
+
+  INSERT INTO dataset_versions (dataset_id, version, flows, period_values, note)
+  VALUES (v_dataset.id, 1, p_flows, p_period_values, p_note);
+
+  RETURN v_dataset;
+END;
+$$;